@@ -1,7 +1,14 @@
 import express from 'express';
 import bodyParser from 'body-parser';
 import morgan from 'morgan';
-import { setupRoutes } from './routes';
+import { ownershipIndex, setupPingRoutes, setupRoutes } from './routes';
+import { createTenantResolver, TenantResolver } from './tenants';
+import { createRoleResolver, RoleResolver } from './roles';
+import { loadPolicy, watchPolicy } from './policy';
+import { loadRegistryAuth, watchRegistryAuth } from './registryAuth';
+import { createAuditEvent, writeAuditEvent } from './audit';
+import { describeUpstream } from './upstream';
+import { sendError } from './errors';
 
 const TLS_DISABLED = process.env.TLS_DISABLED === '1' || process.env.TLS_DISABLED === 'true';
 
@@ -31,7 +38,7 @@ const clientCertAuthMiddleware = (req: any, res: any, next: any) => {
     next(); // Proceed to the next middleware/route handler
   } else {
     // If the client is not authorized, return a 401 Unauthorized response
-    res.status(401).send('Access denied: Invalid client certificate');
+    sendError(res, 401, 'Access denied: Invalid client certificate');
   }
 };
 if (!TLS_DISABLED) {
@@ -43,11 +50,78 @@ app.use(clientCertAuthMiddleware);
 app.use(bodyParser.json());
 
 // some older versions have OWNER_LABEL_VALUE set but not TENANT_NAME
-const tenantLabelValue = process.env.TENANT_NAME || process.env.OWNER_LABEL_VALUE;
-if (!tenantLabelValue) {
-    console.error("TENANT_NAME environment variable is not set.");
-    process.exit(1);
+const staticTenantLabelValue = process.env.TENANT_NAME || process.env.OWNER_LABEL_VALUE;
+
+try {
+  loadPolicy();
+} catch (error: any) {
+  console.error(error.message);
+  process.exit(1);
+}
+watchPolicy();
+
+try {
+  loadRegistryAuth();
+} catch (error: any) {
+  console.error(error.message);
+  process.exit(1);
+}
+watchRegistryAuth();
+
+console.log(`Forwarding requests to the docker engine at ${describeUpstream()}`);
+
+const OWNERSHIP_CACHE_DISABLED = process.env.OWNERSHIP_CACHE_DISABLED === '1' || process.env.OWNERSHIP_CACHE_DISABLED === 'true';
+if (!OWNERSHIP_CACHE_DISABLED) {
+  ownershipIndex.start();
+}
+
+let resolveTenant: TenantResolver;
+try {
+  resolveTenant = createTenantResolver(staticTenantLabelValue, TLS_DISABLED);
+} catch (error: any) {
+  console.error(error.message);
+  process.exit(1);
+}
+
+let resolveRole: RoleResolver;
+try {
+  resolveRole = createRoleResolver(TLS_DISABLED);
+} catch (error: any) {
+  console.error(error.message);
+  process.exit(1);
 }
 
-const router = setupRoutes(tenantLabelValue);
-app.use('/', router);
\ No newline at end of file
+// one router per tenant, created on first use
+const tenantRouters = new Map<string, express.Router>();
+function getRouterForTenant(tenantLabelValue: string): express.Router {
+  let router = tenantRouters.get(tenantLabelValue);
+  if (!router) {
+    router = setupRoutes(tenantLabelValue);
+    tenantRouters.set(tenantLabelValue, router);
+  }
+  return router;
+}
+
+// before tenants and roles are resolved, the healthcheck pings with the certificate of the server
+app.use(setupPingRoutes());
+
+app.use('/', (req, res, next) => {
+  const tenantLabelValue = resolveTenant(req);
+  if (!tenantLabelValue) {
+    const message = 'Access denied: Client certificate does not map to a tenant.';
+    writeAuditEvent(createAuditEvent(req, undefined, 403, message));
+    sendError(res, 403, message);
+    return;
+  }
+  // checked by each route before it checks ownership, see requireRole
+  res.locals.role = resolveRole(req);
+  getRouterForTenant(tenantLabelValue)(req, res, next);
+});
+
+// e.g. request bodies that are not valid JSON
+app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (res.headersSent) {
+    return next(error);
+  }
+  sendError(res, error.status || 500, error.message);
+});
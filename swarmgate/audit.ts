@@ -0,0 +1,183 @@
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import { getClientCommonName } from './tenants';
+import { getRouteResource } from './routeResource';
+
+// structured audit log of every mutating request and every denied request.
+// one JSON event per line, written to stdout and/or a size-rotated file
+
+// comma-separated list of stdout and file, empty disables the audit log
+const AUDIT_LOG_SINKS = (process.env.AUDIT_LOG_SINKS ?? 'stdout').split(',').map(s => s.trim()).filter(s => !!s);
+const AUDIT_LOG_FILE = process.env.AUDIT_LOG_FILE || '/var/log/swarmgate/audit.log';
+const AUDIT_LOG_MAX_SIZE = parseInt(process.env.AUDIT_LOG_MAX_SIZE || `${10 * 1024 * 1024}`);
+const AUDIT_LOG_MAX_FILES = parseInt(process.env.AUDIT_LOG_MAX_FILES || '5');
+
+const AUDITED_RESOURCE_TYPES = ['services', 'networks', 'secrets', 'configs', 'volumes'];
+const MUTATING_METHODS = ['POST', 'PUT', 'DELETE'];
+
+const REDACTED = '<redacted>';
+
+export type AuditEvent = {
+    timestamp: string,
+    tenant: string | undefined,
+    clientCN: string | undefined,
+    method: string,
+    route: string,
+    resourceType: string | undefined,
+    resource: string | undefined,
+    decision: 'allow' | 'deny' | 'error',
+    status: number,
+    reason?: string,
+    spec?: any
+}
+
+class RotatingFileSink {
+    private size: number;
+
+    constructor(private file: string, private maxSize: number, private maxFiles: number) {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        this.size = fs.existsSync(file) ? fs.statSync(file).size : 0;
+    }
+
+    write(line: string) {
+        if (this.size > 0 && this.size + Buffer.byteLength(line) > this.maxSize) {
+            this.rotate();
+        }
+        fs.appendFileSync(this.file, line);
+        this.size += Buffer.byteLength(line);
+    }
+
+    private rotate() {
+        for (let i = this.maxFiles - 1; i >= 1; i--) {
+            const source = i === 1 ? this.file : `${this.file}.${i - 1}`;
+            if (fs.existsSync(source)) {
+                fs.renameSync(source, `${this.file}.${i}`);
+            }
+        }
+        if (this.maxFiles <= 1) {
+            fs.truncateSync(this.file);
+        }
+        this.size = 0;
+    }
+}
+
+let fileSink: RotatingFileSink | undefined = undefined;
+if (AUDIT_LOG_SINKS.includes('file')) {
+    fileSink = new RotatingFileSink(AUDIT_LOG_FILE, AUDIT_LOG_MAX_SIZE, AUDIT_LOG_MAX_FILES);
+}
+
+export function writeAuditEvent(event: AuditEvent) {
+    const line = JSON.stringify(event) + '\n';
+    try {
+        if (AUDIT_LOG_SINKS.includes('stdout')) {
+            process.stdout.write(line);
+        }
+        if (fileSink) {
+            fileSink.write(line);
+        }
+    } catch (error: any) {
+        console.error(`Failed to write audit event: ${error.message}`);
+    }
+}
+
+// secret payloads and environment values never end up in the audit log
+export function redactSpec(resourceType: string | undefined, spec: any): any {
+    if (!spec || typeof spec !== 'object' || Object.keys(spec).length === 0) {
+        return undefined;
+    }
+    const redacted = structuredClone(spec);
+    if (resourceType === 'secrets' && redacted.Data !== undefined) {
+        redacted.Data = REDACTED;
+    }
+    const containerSpec = redacted.TaskTemplate?.ContainerSpec;
+    if (containerSpec && Array.isArray(containerSpec.Env)) {
+        containerSpec.Env = containerSpec.Env.map((entry: string) => {
+            const index = entry.indexOf('=');
+            return index === -1 ? entry : `${entry.substring(0, index)}=${REDACTED}`;
+        });
+    }
+    return redacted;
+}
+
+function extractReason(body: any): string | undefined {
+    if (body === undefined || body === null) {
+        return undefined;
+    }
+    if (Buffer.isBuffer(body)) {
+        body = body.toString('utf8');
+    }
+    if (typeof body === 'object') {
+        return body.message;
+    }
+    try {
+        const parsed = JSON.parse(body);
+        if (parsed && typeof parsed.message === 'string') {
+            return parsed.message;
+        }
+    } catch (error) {
+        // plain text response
+    }
+    return String(body);
+}
+
+// everything the gateway or docker rejects is a denial, server side failures are errors
+function decide(status: number): AuditEvent['decision'] {
+    if (status < 400) {
+        return 'allow';
+    }
+    if (status < 500) {
+        return 'deny';
+    }
+    return 'error';
+}
+
+export function createAuditEvent(req: express.Request, tenant: string | undefined, status: number, reason?: string): AuditEvent {
+    // requests that were rejected before they were routed have no resource
+    const { resourceType, resourceId, action } = getRouteResource(req);
+    return {
+        timestamp: new Date().toISOString(),
+        tenant: tenant,
+        clientCN: getClientCommonName(req),
+        method: req.method,
+        route: req.path,
+        resourceType: resourceType,
+        resource: action === 'create' ? req.body?.Name : resourceId,
+        decision: decide(status),
+        status: status,
+        reason: reason
+    };
+}
+
+export function audit(tenant: string): express.RequestHandler {
+    return (req, res, next) => {
+        if (AUDIT_LOG_SINKS.length === 0) {
+            return next();
+        }
+
+        // handlers modify the body, so keep a copy of what the client sent.
+        // Whether the request is audited is only known once a route matched
+        const body = MUTATING_METHODS.includes(req.method) ? structuredClone(req.body) : undefined;
+
+        let errorBody: any = undefined;
+        const send = res.send;
+        res.send = function (body?: any) {
+            if (res.statusCode >= 400 && errorBody === undefined) {
+                errorBody = body;
+            }
+            return send.call(this, body);
+        };
+
+        res.on('finish', () => {
+            const reason = res.statusCode >= 400 ? extractReason(errorBody) : undefined;
+            const event = createAuditEvent(req, tenant, res.statusCode, reason);
+            const isMutating = MUTATING_METHODS.includes(req.method) && !!event.resourceType && AUDITED_RESOURCE_TYPES.includes(event.resourceType);
+            if (!isMutating && event.decision !== 'deny') {
+                return;
+            }
+            writeAuditEvent({ ...event, spec: isMutating ? redactSpec(event.resourceType, body) : undefined });
+        });
+
+        next();
+    };
+}
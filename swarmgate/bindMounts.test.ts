@@ -0,0 +1,55 @@
+import { checkBindMount, checkLocalVolumeBind, parseBindMountRules } from "./bindMounts";
+
+describe('bind mounts', () => {
+    const rules = parseBindMountRules(['/etc/localtime:ro', '/srv/{tenant}/*'], 'someTenant');
+
+    it('should allow exact paths', () => {
+        const mount = { Source: '/etc/localtime' };
+        expect(checkBindMount(mount, rules)).toBeUndefined();
+        expect(mount).toEqual({ Source: '/etc/localtime', ReadOnly: true });
+    });
+
+    it('should allow subpaths of prefix rules', () => {
+        expect(checkBindMount({ Source: '/srv/someTenant/data' }, rules)).toBeUndefined();
+        expect(checkBindMount({ Source: '/srv/someTenant' }, rules)).toBeUndefined();
+    });
+
+    it('should force read only if any matching rule requires it', () => {
+        const overlappingRules = parseBindMountRules(['/srv/*', '/srv/secret/*:ro'], 'someTenant');
+        const mount = { Source: '/srv/secret/x' };
+        expect(checkBindMount(mount, overlappingRules)).toBeUndefined();
+        expect(mount).toEqual({ Source: '/srv/secret/x', ReadOnly: true });
+
+        const writable = { Source: '/srv/data' };
+        expect(checkBindMount(writable, overlappingRules)).toBeUndefined();
+        expect(writable).toEqual({ Source: '/srv/data' });
+    });
+
+    it('should reject paths outside the allowlist', () => {
+        expect(checkBindMount({ Source: '/' }, rules)).toBeDefined();
+        expect(checkBindMount({ Source: '/var/run/docker.sock' }, rules)).toBeDefined();
+        expect(checkBindMount({ Source: '/etc/localtime/../shadow' }, rules)).toBeDefined();
+        expect(checkBindMount({ Source: '/srv/someTenantOther' }, rules)).toBeDefined();
+        expect(checkBindMount({ Source: 'relative/path' }, rules)).toBeDefined();
+    });
+
+    it('should normalize paths before checking them', () => {
+        const mount = { Source: '/srv/someTenant/../otherTenant' };
+        expect(checkBindMount(mount, rules)).toBeDefined();
+
+        const allowed = { Source: '/srv/someTenant/./data/' };
+        expect(checkBindMount(allowed, rules)).toBeUndefined();
+        expect(allowed.Source).toBe('/srv/someTenant/data');
+    });
+
+    it('should check local volumes bind mounting host paths', () => {
+        expect(checkLocalVolumeBind({ type: 'none', o: 'bind', device: '/' }, rules)).toBeDefined();
+        expect(checkLocalVolumeBind({ type: 'none', o: 'rbind,rw', device: '/var/run' }, rules)).toBeDefined();
+        expect(checkLocalVolumeBind({ type: 'nfs', o: 'addr=10.0.0.1', device: ':/export' }, rules)).toBeUndefined();
+        expect(checkLocalVolumeBind(undefined, rules)).toBeUndefined();
+
+        const options = { type: 'none', o: 'bind,rw', device: '/etc/./localtime' };
+        expect(checkLocalVolumeBind(options, rules)).toBeUndefined();
+        expect(options).toEqual({ type: 'none', o: 'bind,ro', device: '/etc/localtime' });
+    });
+});
@@ -0,0 +1,112 @@
+import path from 'path';
+
+// host path allowlist for bind mounts
+//
+// rules are given as a list of paths, e.g.
+// ["/etc/localtime:ro", "/srv/{tenant}/*"]
+// - a plain path only allows exactly that path
+// - a path ending in /* also allows everything below it
+// - the :ro suffix forces the mount to be read only, even if another rule matches as well
+// - {tenant} is replaced by the tenant name
+//
+// Note: docker resolves symlinks in the bind source on the host. Prefix rules
+// should therefore only cover directories tenants cannot write symlinks into,
+// or be forced read only.
+
+export type BindMountRule = {
+    path: string,
+    includeSubPaths: boolean,
+    readOnly: boolean
+}
+
+export type BindMount = {
+    Source: string,
+    ReadOnly?: boolean
+}
+
+export function parseBindMountRules(rawRules: string[], tenant: string): BindMountRule[] {
+    const rules: BindMountRule[] = [];
+    for (const rawRule of rawRules) {
+        let rule = rawRule.trim().split('{tenant}').join(tenant);
+        if (!rule) {
+            continue;
+        }
+        let readOnly = false;
+        if (rule.endsWith(':ro')) {
+            readOnly = true;
+            rule = rule.substring(0, rule.length - ':ro'.length);
+        }
+        let includeSubPaths = false;
+        if (rule.endsWith('/*')) {
+            includeSubPaths = true;
+            rule = rule.substring(0, rule.length - '/*'.length) || '/';
+        }
+        if (!path.posix.isAbsolute(rule)) {
+            throw new Error(`Bind mount rule ${rawRule} must be an absolute path.`);
+        }
+        rules.push({
+            path: normalizeHostPath(rule),
+            includeSubPaths: includeSubPaths,
+            readOnly: readOnly
+        });
+    }
+    return rules;
+}
+
+function normalizeHostPath(hostPath: string): string {
+    const normalized = path.posix.normalize(hostPath);
+    if (normalized.length > 1 && normalized.endsWith('/')) {
+        return normalized.substring(0, normalized.length - 1);
+    }
+    return normalized;
+}
+
+function ruleMatches(rule: BindMountRule, hostPath: string): boolean {
+    if (hostPath === rule.path) {
+        return true;
+    }
+    if (!rule.includeSubPaths) {
+        return false;
+    }
+    const prefix = rule.path === '/' ? '/' : rule.path + '/';
+    return hostPath.startsWith(prefix);
+}
+
+// returns an error message if the bind mount is not allowed.
+// forces the mount to be read only if any matching rule requires it
+export function checkBindMount(mount: BindMount, rules: BindMountRule[]): string | undefined {
+    if (typeof mount.Source !== 'string' || !path.posix.isAbsolute(mount.Source)) {
+        return `Access denied: Bind mount source ${mount.Source} must be an absolute path.`;
+    }
+    const hostPath = normalizeHostPath(mount.Source);
+    const matchingRules = rules.filter(r => ruleMatches(r, hostPath));
+    if (matchingRules.length === 0) {
+        return `Access denied: Bind mount of host path ${mount.Source} is not allowed.`;
+    }
+    if (matchingRules.some(r => r.readOnly)) {
+        mount.ReadOnly = true;
+    }
+    // make sure docker mounts exactly the path we checked
+    mount.Source = hostPath;
+    return undefined;
+}
+
+// the local volume driver bind mounts its device if the mount options contain bind,
+// e.g. { type: 'none', o: 'bind', device: '/srv/data' }, so the device is checked like the
+// source of a bind mount. Returns an error message if it is not allowed
+export function checkLocalVolumeBind(driverOptions: { [key: string]: string } | undefined, rules: BindMountRule[]): string | undefined {
+    const mountOptions = (driverOptions?.o || '').split(',').map(option => option.trim());
+    if (!driverOptions || !mountOptions.some(option => option === 'bind' || option === 'rbind')) {
+        return undefined;
+    }
+    const mount: BindMount = { Source: driverOptions.device };
+    const error = checkBindMount(mount, rules);
+    if (error) {
+        return error;
+    }
+    driverOptions.device = mount.Source;
+    if (mount.ReadOnly) {
+        driverOptions.o = [...mountOptions.filter(option => option !== 'rw' && option !== 'ro'), 'ro'].join(',');
+    }
+    return undefined;
+}
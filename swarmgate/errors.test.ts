@@ -0,0 +1,55 @@
+import express from 'express';
+import { sendError, sendViolations, violation } from './errors';
+
+function fakeResponse() {
+    const sent: { status?: number, body?: any } = {};
+    const res = {
+        status(status: number) {
+            sent.status = status;
+            return res;
+        },
+        json(body: any) {
+            sent.body = body;
+            return res;
+        }
+    };
+    return { res: res as unknown as express.Response, sent };
+}
+
+describe('errors', () => {
+    it('should answer like the docker engine', () => {
+        const { res, sent } = fakeResponse();
+        sendError(res, 500, 'Internal server error');
+        expect(sent).toEqual({ status: 500, body: { message: 'Internal server error' } });
+    });
+
+    it('should send a single violation as the message', () => {
+        const { res, sent } = fakeResponse();
+        sendViolations(res, [violation('ports', 'Access denied: Exposing ports is not allowed.')]);
+        expect(sent.status).toBe(403);
+        expect(sent.body).toEqual({
+            message: 'Access denied: Exposing ports is not allowed.',
+            violations: [{ rule: 'ports', message: 'Access denied: Exposing ports is not allowed.' }]
+        });
+    });
+
+    it('should report all violations at once', () => {
+        const { res, sent } = fakeResponse();
+        sendViolations(res, [
+            violation('mount.type', 'Mount type foo is not supported.', 400),
+            violation('network.owned', 'Access denied: Network a is not owned.'),
+        ]);
+        expect(sent.status).toBe(403);
+        expect(sent.body.message).toBe('2 violations:\n- Mount type foo is not supported.\n- Access denied: Network a is not owned.');
+        expect(sent.body.violations.map((v: any) => v.rule)).toEqual(['mount.type', 'network.owned']);
+    });
+
+    it('should only be forbidden if a policy is violated', () => {
+        const { res, sent } = fakeResponse();
+        sendViolations(res, [
+            violation('name', 'Service name is required.', 400),
+            violation('containerSpec', 'ContainerSpec is required in TaskTemplate.', 400),
+        ]);
+        expect(sent.status).toBe(400);
+    });
+});
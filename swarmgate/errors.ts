@@ -0,0 +1,38 @@
+import express from 'express';
+
+// errors are answered like the docker engine does, as {"message": "..."}.
+// Validation reports every violation of a request at once, each naming the rule it broke
+
+export type Violation = {
+    // e.g. network.owned or image.policy
+    rule: string,
+    message: string,
+    // 403 for policy violations, 400 for invalid requests
+    status: number
+}
+
+export function violation(rule: string, message: string, status: number = 403): Violation {
+    return { rule, message, status };
+}
+
+export function sendError(res: express.Response, status: number, message: string) {
+    res.status(status).json({ message: message });
+}
+
+// a single policy violation makes the whole request forbidden
+function violationsStatus(violations: Violation[]): number {
+    if (violations.some(v => v.status === 403)) {
+        return 403;
+    }
+    return Math.max(...violations.map(v => v.status));
+}
+
+export function sendViolations(res: express.Response, violations: Violation[]) {
+    const message = violations.length === 1
+        ? violations[0].message
+        : `${violations.length} violations:\n${violations.map(v => `- ${v.message}`).join('\n')}`;
+    res.status(violationsStatus(violations)).json({
+        message: message,
+        violations: violations.map(v => ({ rule: v.rule, message: v.message })),
+    });
+}
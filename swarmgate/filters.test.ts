@@ -0,0 +1,23 @@
+import { InvalidFilterError, parseFilters, withFilter } from './filters';
+
+describe('filters', () => {
+    it('should accept the map and the legacy list format', () => {
+        expect(parseFilters('{"label": {"a=b": true, "c": false}}')).toEqual({ label: { 'a=b': true } });
+        expect(parseFilters('{"label": ["a=b"]}')).toEqual({ label: { 'a=b': true } });
+        expect(parseFilters(undefined)).toEqual({});
+    });
+
+    it('should keep the filters of the client when adding one', () => {
+        expect(withFilter('{"label": ["a=b"], "name": ["web"]}', 'label', 'tenant=t1')).toEqual({
+            label: { 'a=b': true, 'tenant=t1': true },
+            name: { web: true }
+        });
+    });
+
+    it('should reject malformed filters with an InvalidFilterError', () => {
+        for (const raw of ['{', '[]', '{"label": "a=b"}', ['a']]) {
+            expect(() => parseFilters(raw)).toThrow(InvalidFilterError);
+            expect(() => withFilter(raw, 'label', 'tenant=t1')).toThrow('Invalid filter');
+        }
+    });
+});
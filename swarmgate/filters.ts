@@ -0,0 +1,55 @@
+// helpers for the filters query parameter of the docker list endpoints
+
+// docker accepts {"label": {"a=b": true}} as well as the legacy {"label": ["a=b"]}
+export type DockerFilters = {
+    [key: string]: { [value: string]: boolean }
+}
+
+// malformed filters are answered with a 400, like docker does
+export class InvalidFilterError extends Error {
+}
+
+export function parseFilters(raw: unknown): DockerFilters {
+    if (raw === undefined || raw === null || raw === '') {
+        return {};
+    }
+    if (typeof raw !== 'string') {
+        throw new InvalidFilterError('Invalid filter: filters must be a JSON string.');
+    }
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch (error) {
+        throw new InvalidFilterError(`Invalid filter: ${raw}`);
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new InvalidFilterError(`Invalid filter: ${raw}`);
+    }
+
+    const filters: DockerFilters = {};
+    for (const [key, values] of Object.entries(parsed)) {
+        filters[key] = {};
+        if (Array.isArray(values)) {
+            for (const value of values) {
+                filters[key][String(value)] = true;
+            }
+        } else if (values && typeof values === 'object') {
+            for (const [value, enabled] of Object.entries(values)) {
+                if (enabled) {
+                    filters[key][value] = true;
+                }
+            }
+        } else {
+            throw new InvalidFilterError(`Invalid filter: ${raw}`);
+        }
+    }
+    return filters;
+}
+
+// adds a filter while keeping the filters the client sent.
+// docker ANDs label filters, so adding a label never widens the result
+export function withFilter(raw: unknown, key: string, value: string): DockerFilters {
+    const filters = parseFilters(raw);
+    filters[key] = { ...filters[key] || {}, [value]: true };
+    return filters;
+}
@@ -0,0 +1,41 @@
+import { parseImageReference } from "./imageReference";
+import { checkImagePolicy } from "./imagePolicy";
+
+const DIGEST = 'sha256:' + 'a'.repeat(64);
+
+function check(image: string, checkDigest: boolean = true): string[] {
+    return checkImagePolicy(parseImageReference(image), {
+        allowedRepositories: ['registry.example.com/team-a/*', 'docker.io/library/**'],
+        deniedRepositories: ['docker.io/library/busybox'],
+        bannedTags: ['latest'],
+        requireDigest: true,
+    }, { checkDigest: checkDigest });
+}
+
+describe('image policy', () => {
+    it('should allow matching repositories', () => {
+        expect(check(`registry.example.com/team-a/app:1.0@${DIGEST}`)).toEqual([]);
+        expect(check(`nginx:1.25@${DIGEST}`)).toEqual([]);
+    });
+
+    it('should match * within a single segment', () => {
+        expect(check(`registry.example.com/team-a/nested/app:1.0@${DIGEST}`)[0]).toContain('does not match any of the allowed repositories');
+        expect(check(`registry.example.com/team-b/app:1.0@${DIGEST}`)[0]).toContain('does not match any of the allowed repositories');
+    });
+
+    it('should deny denied repositories', () => {
+        expect(check(`busybox:1.36@${DIGEST}`)[0]).toContain('matches the denied repository docker.io/library/busybox');
+        expect(check(`Docker.IO/library/busybox:1.36@${DIGEST}`)[0]).toContain('matches the denied repository docker.io/library/busybox');
+    });
+
+    it('should ban tags, treating untagged images as latest', () => {
+        expect(check(`nginx:latest@${DIGEST}`)[0]).toContain('Tag latest');
+        expect(check('nginx', false)[0]).toContain('Tag latest');
+        expect(check(`nginx@${DIGEST}`)).toEqual([]);
+    });
+
+    it('should require digests only when asked to', () => {
+        expect(check('nginx:1.25')[0]).toContain('has to be pinned by digest');
+        expect(check('nginx:1.25', false)).toEqual([]);
+    });
+});
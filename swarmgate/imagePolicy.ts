@@ -0,0 +1,64 @@
+import { getRepository, ImageReference } from './imageReference';
+
+// image policy for services/create, services/:id/update and image resolution.
+// Repository patterns are matched against the fully qualified repository,
+// e.g. docker.io/library/nginx or registry.example.com/team-a/app:
+// - * matches within a single path segment
+// - ** matches across segments
+
+export type ImagePolicy = {
+    allowedRepositories?: string[],
+    deniedRepositories?: string[],
+    // tags that may not be deployed, an image without tag and digest counts as latest
+    bannedTags?: string[],
+    requireDigest?: boolean
+}
+
+export type ImagePolicyOptions = {
+    // the docker cli resolves the digest via /distribution before pinning it,
+    // so the digest can only be required once the service is created
+    checkDigest: boolean
+}
+
+const DEFAULT_TAG = 'latest';
+
+function escapeRegex(value: string): string {
+    return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function compileRepositoryPattern(pattern: string): RegExp {
+    if (!pattern || pattern.includes(':') && !/^[^/]+:\d+\//.test(pattern) || pattern.includes('@')) {
+        throw new Error(`${pattern} is not a valid repository pattern.`);
+    }
+    const source = pattern.split('**').map(part => part.split('*').map(escapeRegex).join('[^/]*')).join('.*');
+    return new RegExp(`^${source}$`);
+}
+
+function matchesAny(repository: string, patterns: string[]): string | undefined {
+    return patterns.find(pattern => compileRepositoryPattern(pattern).test(repository));
+}
+
+export function checkImagePolicy(reference: ImageReference, imagePolicy: ImagePolicy, options: ImagePolicyOptions): string[] {
+    const violations: string[] = [];
+    const repository = getRepository(reference);
+
+    if (imagePolicy.allowedRepositories && !matchesAny(repository, imagePolicy.allowedRepositories)) {
+        violations.push(`Access denied: Repository ${repository} does not match any of the allowed repositories (image policy).`);
+    }
+
+    const denied = matchesAny(repository, imagePolicy.deniedRepositories || []);
+    if (denied) {
+        violations.push(`Access denied: Repository ${repository} matches the denied repository ${denied} (image policy).`);
+    }
+
+    const tag = reference.tag || (reference.digest ? undefined : DEFAULT_TAG);
+    if (tag && (imagePolicy.bannedTags || []).includes(tag)) {
+        violations.push(`Access denied: Tag ${tag} of ${repository} is banned (image policy).`);
+    }
+
+    if (options.checkDigest && imagePolicy.requireDigest && !reference.digest) {
+        violations.push(`Access denied: Image ${repository} has to be pinned by digest (image policy).`);
+    }
+
+    return violations;
+}
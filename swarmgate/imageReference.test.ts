@@ -0,0 +1,41 @@
+import { formatImageReference, parseImageReference, withDigest } from "./imageReference";
+
+const DIGEST = 'sha256:' + 'a'.repeat(64);
+
+describe('image references', () => {
+    it('should default to docker hub', () => {
+        expect(parseImageReference('nginx')).toEqual({ domain: 'docker.io', path: 'library/nginx', tag: undefined, digest: undefined });
+        expect(parseImageReference('myorg/app:1.0')).toEqual({ domain: 'docker.io', path: 'myorg/app', tag: '1.0', digest: undefined });
+        expect(parseImageReference('index.docker.io/nginx').domain).toBe('docker.io');
+    });
+
+    it('should detect registries', () => {
+        expect(parseImageReference('registry.example.com/team-a/app:latest')).toEqual({ domain: 'registry.example.com', path: 'team-a/app', tag: 'latest', digest: undefined });
+        expect(parseImageReference('localhost:5000/app')).toEqual({ domain: 'localhost:5000', path: 'app', tag: undefined, digest: undefined });
+        expect(parseImageReference('localhost/app').domain).toBe('localhost');
+        expect(parseImageReference('Registry.Example.com/team-a/app').domain).toBe('registry.example.com');
+        expect(parseImageReference('Index.Docker.io/nginx').domain).toBe('docker.io');
+    });
+
+    it('should parse digests', () => {
+        expect(parseImageReference(`app@${DIGEST}`)).toEqual({ domain: 'docker.io', path: 'library/app', tag: undefined, digest: DIGEST });
+        expect(parseImageReference(`localhost:5000/app:1.0@${DIGEST}`)).toEqual({ domain: 'localhost:5000', path: 'app', tag: '1.0', digest: DIGEST });
+    });
+
+    it('should reject invalid references', () => {
+        expect(() => parseImageReference('')).toThrow('invalid reference format');
+        expect(() => parseImageReference('UPPER')).toThrow('invalid reference format');
+        expect(() => parseImageReference('app@sha256:xyz')).toThrow('invalid reference format');
+        expect(() => parseImageReference('app:')).toThrow('invalid reference format');
+        expect(() => parseImageReference('a//b')).toThrow('invalid reference format');
+    });
+
+    it('should format references', () => {
+        expect(formatImageReference(parseImageReference(`nginx:1.25@${DIGEST}`))).toBe(`docker.io/library/nginx:1.25@${DIGEST}`);
+    });
+
+    it('should pin digests', () => {
+        expect(withDigest('myorg/app:1.0', DIGEST)).toBe(`myorg/app:1.0@${DIGEST}`);
+        expect(withDigest(`localhost:5000/app@sha256:${'b'.repeat(64)}`, DIGEST)).toBe(`localhost:5000/app@${DIGEST}`);
+    });
+});
@@ -0,0 +1,118 @@
+// docker image reference parsing, following the grammar of
+// https://github.com/distribution/reference
+//
+// reference := name [ ":" tag ] [ "@" digest ]
+// name      := [ domain "/" ] path
+
+export const DEFAULT_DOMAIN = 'docker.io';
+const LEGACY_DEFAULT_DOMAIN = 'index.docker.io';
+const OFFICIAL_REPOSITORY_PREFIX = 'library/';
+
+const DOMAIN_COMPONENT = '(?:[a-zA-Z0-9]|[a-zA-Z0-9][a-zA-Z0-9-]*[a-zA-Z0-9])';
+const DOMAIN_REGEX = new RegExp(`^(?:${DOMAIN_COMPONENT}(?:\\.${DOMAIN_COMPONENT})*|\\[[a-fA-F0-9:]+\\])(?::[0-9]+)?$`);
+const PATH_COMPONENT_REGEX = /^[a-z0-9]+(?:(?:[._]|__|[-]+)[a-z0-9]+)*$/;
+const TAG_REGEX = /^[\w][\w.-]{0,127}$/;
+const DIGEST_REGEX = /^[A-Za-z][A-Za-z0-9]*(?:[-_+.][A-Za-z][A-Za-z0-9]*)*:[0-9a-fA-F]{32,}$/;
+
+export type ImageReference = {
+    // registry, e.g. docker.io or localhost:5000
+    domain: string,
+    // repository path within the registry, e.g. library/nginx
+    path: string,
+    tag?: string,
+    digest?: string
+}
+
+function invalid(image: string): Error {
+    return new Error(`invalid reference format: ${image}`);
+}
+
+// the first path segment is a domain if it looks like a host name
+function isDomain(segment: string): boolean {
+    return segment.includes('.') || segment.includes(':') || segment === 'localhost' || segment.toLowerCase() !== segment;
+}
+
+export function parseImageReference(image: string): ImageReference {
+    if (!image || image.length > 255 + 128 + 1 + 72) {
+        throw invalid(image);
+    }
+
+    let remainder = image;
+    let digest: string | undefined = undefined;
+    const at = remainder.indexOf('@');
+    if (at !== -1) {
+        digest = remainder.substring(at + 1);
+        remainder = remainder.substring(0, at);
+        if (!DIGEST_REGEX.test(digest)) {
+            throw invalid(image);
+        }
+    }
+
+    let tag: string | undefined = undefined;
+    const colon = remainder.lastIndexOf(':');
+    if (colon > remainder.lastIndexOf('/')) {
+        tag = remainder.substring(colon + 1);
+        remainder = remainder.substring(0, colon);
+        if (!TAG_REGEX.test(tag)) {
+            throw invalid(image);
+        }
+    }
+
+    let domain = DEFAULT_DOMAIN;
+    let path = remainder;
+    const slash = remainder.indexOf('/');
+    if (slash !== -1 && isDomain(remainder.substring(0, slash))) {
+        domain = remainder.substring(0, slash);
+        path = remainder.substring(slash + 1);
+        if (!DOMAIN_REGEX.test(domain)) {
+            throw invalid(image);
+        }
+        // host names are case insensitive, Registry.Example.com is registry.example.com
+        domain = domain.toLowerCase();
+    }
+    if (domain === LEGACY_DEFAULT_DOMAIN) {
+        domain = DEFAULT_DOMAIN;
+    }
+    if (domain === DEFAULT_DOMAIN && !path.includes('/')) {
+        path = OFFICIAL_REPOSITORY_PREFIX + path;
+    }
+
+    if (!path || path.split('/').some(component => !PATH_COMPONENT_REGEX.test(component))) {
+        throw invalid(image);
+    }
+    if (domain.length + 1 + path.length > 255) {
+        throw invalid(image);
+    }
+
+    return { domain, path, tag, digest };
+}
+
+export function tryParseImageReference(image: string): ImageReference | undefined {
+    try {
+        return parseImageReference(image);
+    } catch (error) {
+        return undefined;
+    }
+}
+
+// fully qualified repository name, e.g. docker.io/library/nginx
+export function getRepository(reference: ImageReference): string {
+    return `${reference.domain}/${reference.path}`;
+}
+
+export function formatImageReference(reference: ImageReference): string {
+    let formatted = getRepository(reference);
+    if (reference.tag) {
+        formatted += `:${reference.tag}`;
+    }
+    if (reference.digest) {
+        formatted += `@${reference.digest}`;
+    }
+    return formatted;
+}
+
+// replaces the digest of the reference while keeping the name as the client wrote it
+export function withDigest(image: string, digest: string): string {
+    const at = image.indexOf('@');
+    return `${at === -1 ? image : image.substring(0, at)}@${digest}`;
+}
@@ -0,0 +1,45 @@
+import { allocateSubnet, applyNetworkPolicy, checkNetworkSpec, findOverlappingSubnet, NetworkSpec } from "./networkPolicy";
+
+describe('network policy', () => {
+    it('should only allow overlay networks by default', () => {
+        expect(checkNetworkSpec({ Name: 'tenant1_net' }, {})).toEqual([]);
+        expect(checkNetworkSpec({ Name: 'tenant1_net', Driver: 'host' }, {})[0]).toContain('Network driver host is not allowed');
+        expect(checkNetworkSpec({ Name: 'tenant1_net', Driver: 'macvlan', Options: { parent: 'eth0' } }, { allowedDrivers: ['macvlan'] })[0]).toContain('option parent is not allowed');
+    });
+
+    it('should forbid ingress and config networks', () => {
+        expect(checkNetworkSpec({ Ingress: true }, {})[0]).toContain('Ingress networks are not allowed');
+        expect(checkNetworkSpec({ ConfigFrom: { Network: 'other' } }, {})[0]).toContain('ConfigOnly and ConfigFrom');
+    });
+
+    it('should only allow subnets from the address pool', () => {
+        const spec = (subnet: string, gateway?: string): NetworkSpec => ({ IPAM: { Config: [{ Subnet: subnet, Gateway: gateway }] } });
+        expect(checkNetworkSpec(spec('10.0.0.0/24'), {})[0]).toContain('no address pool is configured');
+        expect(checkNetworkSpec(spec('10.128.1.0/24', '10.128.1.1'), { addressPool: '10.128.0.0/16' })).toEqual([]);
+        expect(checkNetworkSpec(spec('10.0.0.0/24'), { addressPool: '10.128.0.0/16' })[0]).toContain('is not within the address pool');
+        expect(checkNetworkSpec(spec('10.128.1.0/24', '10.128.2.1'), { addressPool: '10.128.0.0/16' })[0]).toContain('Address 10.128.2.1 is not within');
+    });
+
+    it('should force encryption and internal networks', () => {
+        const spec: NetworkSpec = { Options: { 'com.example': 'x' } };
+        applyNetworkPolicy(spec, { forceEncrypted: true, forceInternal: true });
+        expect(spec).toEqual({ Driver: 'overlay', Options: { 'com.example': 'x', encrypted: '' }, Internal: true });
+    });
+
+    it('should create networks without a driver as overlay networks', () => {
+        const spec: NetworkSpec = { Name: 'tenant1_net' };
+        applyNetworkPolicy(spec, {});
+        expect(spec).toEqual({ Name: 'tenant1_net', Driver: 'overlay' });
+
+        const bridge: NetworkSpec = { Name: 'tenant1_net', Driver: 'bridge' };
+        applyNetworkPolicy(bridge, { allowedDrivers: ['bridge'] });
+        expect(bridge.Driver).toBe('bridge');
+    });
+
+    it('should allocate free subnets', () => {
+        expect(allocateSubnet('10.128.0.0/16', undefined, [])).toBe('10.128.0.0/24');
+        expect(allocateSubnet('10.128.0.0/16', 24, ['10.128.0.0/24', '10.128.1.128/25', '192.168.0.0/16'])).toBe('10.128.2.0/24');
+        expect(allocateSubnet('10.128.0.0/23', 24, ['10.128.0.0/23'])).toBeUndefined();
+        expect(findOverlappingSubnet(['10.128.1.0/24'], ['10.128.0.0/16'])).toBe('10.128.1.0/24');
+    });
+});
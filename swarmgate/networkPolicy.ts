@@ -0,0 +1,191 @@
+// network policy for networks/create
+
+export type NetworkPolicy = {
+    // default: overlay
+    allowedDrivers?: string[],
+    // driver options tenants may set, encrypted is always allowed
+    allowedDriverOptions?: string[],
+    // default: true
+    allowAttachable?: boolean,
+    forceEncrypted?: boolean,
+    forceInternal?: boolean,
+    // IPv4 pool the subnets of the tenant's networks are taken from, e.g. 10.128.0.0/16.
+    // Without a pool, tenants cannot choose subnets and docker assigns them
+    addressPool?: string,
+    // prefix length of the subnets handed out from the pool, default: 24
+    subnetSize?: number
+}
+
+export type NetworkSpec = {
+    Name?: string,
+    Driver?: string,
+    Options?: { [key: string]: string },
+    Attachable?: boolean,
+    Internal?: boolean,
+    Ingress?: boolean,
+    ConfigOnly?: boolean,
+    ConfigFrom?: { Network?: string },
+    IPAM?: {
+        Driver?: string,
+        Options?: { [key: string]: string },
+        Config?: {
+            Subnet?: string,
+            IPRange?: string,
+            Gateway?: string,
+            AuxiliaryAddresses?: { [key: string]: string }
+        }[]
+    }
+}
+
+const DEFAULT_ALLOWED_DRIVERS = ['overlay'];
+// networks without a driver are checked and created as overlay networks,
+// the engine would create a local bridge network for them
+const DEFAULT_DRIVER = 'overlay';
+const DEFAULT_SUBNET_SIZE = 24;
+const ENCRYPTED_OPTION = 'encrypted';
+
+type Cidr = {
+    base: number,
+    prefix: number
+}
+
+function parseIPv4(address: string): number | undefined {
+    const parts = address.split('.');
+    if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || parseInt(part) > 255)) {
+        return undefined;
+    }
+    return parts.reduce((result, part) => result * 256 + parseInt(part), 0);
+}
+
+function formatIPv4(address: number): string {
+    return [24, 16, 8, 0].map(shift => Math.floor(address / 2 ** shift) % 256).join('.');
+}
+
+function mask(address: number, prefix: number): number {
+    const size = 2 ** (32 - prefix);
+    return Math.floor(address / size) * size;
+}
+
+export function parseCidr(cidr: string): Cidr | undefined {
+    const [address, prefixRaw, ...rest] = cidr.split('/');
+    const base = parseIPv4(address);
+    if (base === undefined || rest.length > 0 || !/^\d{1,2}$/.test(prefixRaw || '')) {
+        return undefined;
+    }
+    const prefix = parseInt(prefixRaw);
+    if (prefix > 32) {
+        return undefined;
+    }
+    return { base: mask(base, prefix), prefix };
+}
+
+function contains(outer: Cidr, inner: Cidr): boolean {
+    return inner.prefix >= outer.prefix && mask(inner.base, outer.prefix) === outer.base;
+}
+
+function overlaps(a: Cidr, b: Cidr): boolean {
+    return contains(a, b) || contains(b, a);
+}
+
+function containsAddress(cidr: Cidr, address: string): boolean {
+    const parsed = parseIPv4(address);
+    return parsed !== undefined && contains(cidr, { base: parsed, prefix: 32 });
+}
+
+export function checkNetworkSpec(spec: NetworkSpec, networkPolicy: NetworkPolicy): string[] {
+    const violations: string[] = [];
+
+    const driver = spec.Driver || DEFAULT_DRIVER;
+    if (!(networkPolicy.allowedDrivers || DEFAULT_ALLOWED_DRIVERS).includes(driver)) {
+        violations.push(`Access denied: Network driver ${driver} is not allowed (network policy).`);
+    }
+    const allowedOptions = [ENCRYPTED_OPTION, ...networkPolicy.allowedDriverOptions || []];
+    for (const option of Object.keys(spec.Options || {})) {
+        if (!allowedOptions.includes(option)) {
+            violations.push(`Access denied: Network driver option ${option} is not allowed (network policy).`);
+        }
+    }
+    if (spec.Ingress) {
+        violations.push('Access denied: Ingress networks are not allowed (network policy).');
+    }
+    if (spec.ConfigOnly || spec.ConfigFrom) {
+        violations.push('Access denied: ConfigOnly and ConfigFrom networks are not allowed (network policy).');
+    }
+    if (spec.Attachable && networkPolicy.allowAttachable === false) {
+        violations.push('Access denied: Attachable networks are not allowed (network policy).');
+    }
+    if (spec.Internal === false && networkPolicy.forceInternal) {
+        violations.push('Access denied: Networks have to be internal (network policy).');
+    }
+
+    const ipam = spec.IPAM;
+    if (ipam) {
+        if (ipam.Driver && ipam.Driver !== 'default') {
+            violations.push(`Access denied: IPAM driver ${ipam.Driver} is not allowed (network policy).`);
+        }
+        if (ipam.Options && Object.keys(ipam.Options).length > 0) {
+            violations.push('Access denied: IPAM options are not allowed (network policy).');
+        }
+        const pool = networkPolicy.addressPool ? parseCidr(networkPolicy.addressPool) : undefined;
+        for (const config of ipam.Config || []) {
+            if (!pool) {
+                violations.push('Access denied: Subnets can not be chosen as no address pool is configured (network policy).');
+                break;
+            }
+            const subnet = config.Subnet ? parseCidr(config.Subnet) : undefined;
+            if (!subnet || !contains(pool, subnet)) {
+                violations.push(`Access denied: Subnet ${config.Subnet} is not within the address pool ${networkPolicy.addressPool} (network policy).`);
+                continue;
+            }
+            for (const address of [config.Gateway, ...Object.values(config.AuxiliaryAddresses || {})]) {
+                if (address !== undefined && !containsAddress(subnet, address)) {
+                    violations.push(`Access denied: Address ${address} is not within the subnet ${config.Subnet} (network policy).`);
+                }
+            }
+            const range = config.IPRange ? parseCidr(config.IPRange) : undefined;
+            if (config.IPRange && (!range || !contains(subnet, range))) {
+                violations.push(`Access denied: IP range ${config.IPRange} is not within the subnet ${config.Subnet} (network policy).`);
+            }
+        }
+    }
+
+    return violations;
+}
+
+// forces the settings the policy requires onto the spec
+export function applyNetworkPolicy(spec: NetworkSpec, networkPolicy: NetworkPolicy) {
+    spec.Driver = spec.Driver || DEFAULT_DRIVER;
+    if (networkPolicy.forceEncrypted) {
+        spec.Options = { ...spec.Options, [ENCRYPTED_OPTION]: '' };
+    }
+    if (networkPolicy.forceInternal) {
+        spec.Internal = true;
+    }
+}
+
+// returns the first subnet of the pool that does not overlap with the used ones
+export function allocateSubnet(addressPool: string, subnetSize: number | undefined, usedSubnets: string[]): string | undefined {
+    const pool = parseCidr(addressPool);
+    const prefix = subnetSize || DEFAULT_SUBNET_SIZE;
+    if (!pool || prefix < pool.prefix) {
+        return undefined;
+    }
+    const used = usedSubnets.map(parseCidr).filter((cidr): cidr is Cidr => !!cidr);
+    const size = 2 ** (32 - prefix);
+    for (let base = pool.base; base < pool.base + 2 ** (32 - pool.prefix); base += size) {
+        const candidate = { base, prefix };
+        if (!used.some(subnet => overlaps(subnet, candidate))) {
+            return `${formatIPv4(base)}/${prefix}`;
+        }
+    }
+    return undefined;
+}
+
+// subnets chosen by the tenant must not overlap with existing networks
+export function findOverlappingSubnet(requestedSubnets: string[], usedSubnets: string[]): string | undefined {
+    const used = usedSubnets.map(parseCidr).filter((cidr): cidr is Cidr => !!cidr);
+    return requestedSubnets.find(requested => {
+        const cidr = parseCidr(requested);
+        return cidr && used.some(subnet => overlaps(subnet, cidr));
+    });
+}
@@ -0,0 +1,202 @@
+import Docker from 'dockerode';
+
+// in-memory index of the objects ownership is checked on.
+// It is built at startup and kept fresh by listening to the docker events stream.
+// While the events stream is down, every lookup falls back to a live inspect.
+
+export type ResourceKind = 'service' | 'network' | 'secret' | 'config' | 'volume';
+
+const RESOURCE_KINDS: ResourceKind[] = ['service', 'network', 'secret', 'config', 'volume'];
+
+// events that don't change anything ownership is checked on
+const IGNORED_ACTIONS = ['connect', 'disconnect', 'mount', 'unmount'];
+
+const RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+type IndexedObject = {
+    id: string,
+    name: string,
+    object: any
+}
+
+function describe(kind: ResourceKind, object: any): IndexedObject {
+    switch (kind) {
+        case 'network':
+            return { id: object.Id, name: object.Name, object: object };
+        case 'volume':
+            // volumes are identified by name only
+            return { id: object.Name, name: object.Name, object: object };
+        default:
+            return { id: object.ID, name: object.Spec?.Name, object: object };
+    }
+}
+
+export class OwnershipIndex {
+    private objects = new Map<ResourceKind, Map<string, IndexedObject>>();
+    private healthy = false;
+    private started = false;
+    private reconnectDelay = RECONNECT_DELAY_MS;
+    private stream: NodeJS.ReadableStream | undefined = undefined;
+
+    constructor(private docker: Docker) {
+        this.clear();
+    }
+
+    start() {
+        if (this.started) {
+            return;
+        }
+        this.started = true;
+        this.connect();
+    }
+
+    isHealthy(): boolean {
+        return this.healthy;
+    }
+
+    // returns the object like docker inspect would, throws if it does not exist
+    async inspect(kind: ResourceKind, idOrName: string): Promise<any> {
+        if (this.healthy) {
+            const cached = this.lookup(kind, idOrName);
+            if (cached) {
+                return cached.object;
+            }
+        }
+        const object = await this.inspectLive(kind, idOrName);
+        if (this.healthy && object) {
+            this.add(kind, object);
+        }
+        return object;
+    }
+
+    private lookup(kind: ResourceKind, idOrName: string): IndexedObject | undefined {
+        const objects = this.objects.get(kind)!;
+        const byId = objects.get(idOrName);
+        if (byId) {
+            return byId;
+        }
+        // names and id prefixes have to be unique, otherwise ask docker
+        const matches = [...objects.values()].filter(o => o.name === idOrName || o.id.startsWith(idOrName));
+        return matches.length === 1 ? matches[0] : undefined;
+    }
+
+    private inspectLive(kind: ResourceKind, idOrName: string): Promise<any> {
+        switch (kind) {
+            case 'service':
+                return this.docker.getService(idOrName).inspect();
+            case 'network':
+                return this.docker.getNetwork(idOrName).inspect();
+            case 'secret':
+                return this.docker.getSecret(idOrName).inspect();
+            case 'config':
+                return this.docker.getConfig(idOrName).inspect();
+            case 'volume':
+                return this.docker.getVolume(idOrName).inspect();
+        }
+    }
+
+    private add(kind: ResourceKind, object: any) {
+        const indexed = describe(kind, object);
+        if (indexed.id) {
+            this.objects.get(kind)!.set(indexed.id, indexed);
+        }
+    }
+
+    private invalidate(kind: ResourceKind, id: string | undefined) {
+        if (id) {
+            this.objects.get(kind)!.delete(id);
+        }
+    }
+
+    private clear() {
+        for (const kind of RESOURCE_KINDS) {
+            this.objects.set(kind, new Map());
+        }
+    }
+
+    private async build() {
+        const [services, networks, secrets, configs, volumes] = await Promise.all([
+            this.docker.listServices(),
+            this.docker.listNetworks(),
+            this.docker.listSecrets(),
+            this.docker.listConfigs(),
+            this.docker.listVolumes(),
+        ]);
+        services.forEach(o => this.add('service', o));
+        networks.forEach(o => this.add('network', o));
+        secrets.forEach(o => this.add('secret', o));
+        configs.forEach(o => this.add('config', o));
+        (volumes.Volumes || []).forEach(o => this.add('volume', o));
+    }
+
+    private async connect() {
+        try {
+            // subscribe before building the index so that no change gets lost in between
+            const stream = await this.docker.getEvents({
+                filters: { type: RESOURCE_KINDS } as any
+            });
+            this.stream = stream;
+
+            let buffer = '';
+            stream.on('data', (chunk: Buffer) => {
+                buffer += chunk.toString('utf8');
+                let newline: number;
+                while ((newline = buffer.indexOf('\n')) !== -1) {
+                    const line = buffer.substring(0, newline).trim();
+                    buffer = buffer.substring(newline + 1);
+                    if (line) {
+                        this.handleEvent(line);
+                    }
+                }
+            });
+            stream.on('error', (error: any) => this.disconnected(error));
+            stream.on('end', () => this.disconnected(undefined));
+
+            await this.build();
+            if (this.stream === stream) {
+                this.healthy = true;
+                this.reconnectDelay = RECONNECT_DELAY_MS;
+                console.log('Ownership index is up to date, following docker events');
+            }
+        } catch (error: any) {
+            this.disconnected(error);
+        }
+    }
+
+    private handleEvent(line: string) {
+        let event: any;
+        try {
+            event = JSON.parse(line);
+        } catch (error) {
+            console.error('Failed to parse docker event', line);
+            return;
+        }
+        const kind = event.Type as ResourceKind;
+        if (!RESOURCE_KINDS.includes(kind) || IGNORED_ACTIONS.includes(event.Action)) {
+            return;
+        }
+        this.invalidate(kind, event.Actor?.ID);
+    }
+
+    private disconnected(error: any) {
+        if (error) {
+            console.error(`Docker events stream failed, falling back to live inspect: ${error.message}`);
+        } else {
+            console.error('Docker events stream ended, falling back to live inspect');
+        }
+        const stream: any = this.stream;
+        this.stream = undefined;
+        this.healthy = false;
+        this.clear();
+        if (stream && typeof stream.destroy === 'function') {
+            stream.removeAllListeners();
+            stream.on('error', () => undefined);
+            stream.destroy();
+        }
+
+        const delay = this.reconnectDelay;
+        this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+        setTimeout(() => this.connect(), delay).unref();
+    }
+}
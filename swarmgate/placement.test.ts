@@ -0,0 +1,27 @@
+import { checkPlacementConstraints, matchesConstraints, NodeInfo, withNodeSelector } from "./placement";
+
+const POOL_NODE: NodeInfo = { ID: 'node1', Spec: { Role: 'worker', Labels: { pool: 'team-a' } }, Description: { Hostname: 'worker-1' } };
+const OTHER_NODE: NodeInfo = { ID: 'node2', Spec: { Role: 'worker', Labels: { pool: 'team-b' } }, Description: { Hostname: 'worker-2' } };
+const SELECTOR = ['node.labels.pool==team-a'];
+
+describe('placement', () => {
+    it('should match nodes against constraints', () => {
+        expect(matchesConstraints(POOL_NODE, SELECTOR)).toBe(true);
+        expect(matchesConstraints(OTHER_NODE, SELECTOR)).toBe(false);
+        expect(matchesConstraints(POOL_NODE, ['node.role!=manager', 'node.hostname==WORKER-1'])).toBe(true);
+        expect(matchesConstraints(POOL_NODE, [])).toBe(true);
+    });
+
+    it('should reject constraints outside of the pool', () => {
+        expect(checkPlacementConstraints(['node.role==manager'], SELECTOR, [POOL_NODE])[0]).toContain('manager nodes');
+        expect(checkPlacementConstraints(['node.hostname==worker-2'], SELECTOR, [POOL_NODE])[0]).toContain('outside of the node pool');
+        expect(checkPlacementConstraints(['node.labels.pool==team-b'], SELECTOR, [POOL_NODE])[0]).toContain('conflicts with the node pool');
+        expect(checkPlacementConstraints(['node.hostname==worker-1', 'node.platform.os==linux'], SELECTOR, [POOL_NODE])).toEqual([]);
+        expect(checkPlacementConstraints(['node.role==manager'], [], [])).toEqual([]);
+    });
+
+    it('should add the node selector once', () => {
+        expect(withNodeSelector(['node.platform.os==linux', 'node.labels.pool==team-a'], SELECTOR)).toEqual(['node.platform.os==linux', 'node.labels.pool==team-a']);
+        expect(withNodeSelector(undefined, SELECTOR)).toEqual(SELECTOR);
+    });
+});
@@ -0,0 +1,108 @@
+// node pools, selected per tenant via placement constraints like node.labels.pool==team-a
+
+export type PlacementConstraint = {
+    key: string,
+    operator: '==' | '!=',
+    value: string
+}
+
+// the parts of a node constraints are evaluated on
+export type NodeInfo = {
+    ID?: string,
+    Spec?: {
+        Role?: string,
+        Labels?: { [key: string]: string }
+    },
+    Description?: {
+        Hostname?: string,
+        Platform?: { OS?: string, Architecture?: string },
+        Engine?: { Labels?: { [key: string]: string } }
+    }
+}
+
+const CONSTRAINT_REGEX = /^\s*([\w.\-]+)\s*(==|!=)\s*(\S.*?)\s*$/;
+
+export function parseConstraint(constraint: string): PlacementConstraint | undefined {
+    const match = CONSTRAINT_REGEX.exec(constraint);
+    if (!match) {
+        return undefined;
+    }
+    return { key: match[1], operator: match[2] as PlacementConstraint['operator'], value: match[3] };
+}
+
+function nodeAttribute(node: NodeInfo, key: string): string | undefined {
+    const lowerKey = key.toLowerCase();
+    if (lowerKey.startsWith('node.labels.')) {
+        return node.Spec?.Labels?.[key.substring('node.labels.'.length)];
+    }
+    if (lowerKey.startsWith('engine.labels.')) {
+        return node.Description?.Engine?.Labels?.[key.substring('engine.labels.'.length)];
+    }
+    switch (lowerKey) {
+        case 'node.id':
+            return node.ID;
+        case 'node.hostname':
+            return node.Description?.Hostname;
+        case 'node.role':
+            return node.Spec?.Role;
+        case 'node.platform.os':
+            return node.Description?.Platform?.OS;
+        case 'node.platform.arch':
+            return node.Description?.Platform?.Architecture;
+        default:
+            return undefined;
+    }
+}
+
+// evaluates constraints like swarm does, values are compared case insensitively
+export function matchesConstraints(node: NodeInfo, constraints: string[]): boolean {
+    return constraints.every(constraint => {
+        const parsed = parseConstraint(constraint);
+        if (!parsed) {
+            return false;
+        }
+        const attribute = nodeAttribute(node, parsed.key);
+        const equal = attribute !== undefined && attribute.toLowerCase() === parsed.value.toLowerCase();
+        return parsed.operator === '==' ? equal : !equal;
+    });
+}
+
+// rejects constraints that would place tasks outside of the tenant's node pool
+export function checkPlacementConstraints(constraints: string[], nodeSelector: string[], poolNodes: NodeInfo[]): string[] {
+    if (nodeSelector.length === 0) {
+        return [];
+    }
+    const violations: string[] = [];
+    const selector = nodeSelector.map(parseConstraint).filter((constraint): constraint is PlacementConstraint => !!constraint);
+
+    for (const constraint of constraints) {
+        const parsed = parseConstraint(constraint);
+        if (!parsed) {
+            violations.push(`Placement constraint ${constraint} is invalid.`);
+            continue;
+        }
+        const key = parsed.key.toLowerCase();
+        const value = parsed.value.toLowerCase();
+        if (key === 'node.role' && (parsed.operator === '==' ? value === 'manager' : value === 'worker')) {
+            violations.push(`Access denied: Placement constraint ${constraint} would place tasks on manager nodes.`);
+        } else if ((key === 'node.hostname' || key === 'node.id') && parsed.operator === '==') {
+            if (!poolNodes.some(node => nodeAttribute(node, key)?.toLowerCase() === value)) {
+                violations.push(`Access denied: Placement constraint ${constraint} refers to a node outside of the node pool.`);
+            }
+        } else if (parsed.operator === '==' && selector.some(required => required.operator === '==' && required.key.toLowerCase() === key && required.value.toLowerCase() !== value)) {
+            violations.push(`Access denied: Placement constraint ${constraint} conflicts with the node pool.`);
+        }
+    }
+    return violations;
+}
+
+// adds the node selector to the constraints of the service
+export function withNodeSelector(constraints: string[] | undefined, nodeSelector: string[]): string[] {
+    const result = [...constraints || []];
+    for (const constraint of nodeSelector) {
+        if (!result.includes(constraint)) {
+            result.push(constraint);
+        }
+    }
+    return result;
+}
@@ -0,0 +1,42 @@
+import { loadPolicy, parsePolicy } from "./policy";
+
+describe('policy', () => {
+    it('should merge tenant overrides over the defaults', () => {
+        const policy = parsePolicy(`
+defaults:
+  allowPortExpose: false
+  allowedVolumeTypes: [volume, tmpfs]
+tenants:
+  tenant1:
+    allowPortExpose: true
+`);
+        expect(policy.defaults.allowPortExpose).toBe(false);
+        expect(policy.defaults.allowedVolumeTypes).toEqual(['volume', 'tmpfs']);
+        expect(policy.tenants.tenant1).toEqual({ allowPortExpose: true });
+    });
+
+    it('should accept JSON', () => {
+        const policy = parsePolicy(JSON.stringify({ defaults: { containerSecurityProfile: 'restricted' } }));
+        expect(policy.defaults.containerSecurityProfile).toBe('restricted');
+    });
+
+    it('should reject invalid policies', () => {
+        expect(() => parsePolicy('defaults:\n  allowPortExpose: yes please')).toThrow('defaults.allowPortExpose must be a boolean.');
+        expect(() => parsePolicy('defaults:\n  allowPortExpos: true')).toThrow('defaults.allowPortExpos is not a known policy setting.');
+        expect(() => parsePolicy('tenants:\n  tenant1:\n    containerSecurityProfile: none')).toThrow('tenants.tenant1.containerSecurityProfile');
+        expect(() => parsePolicy('defaults:\n  allowedBindMounts: [relative/path]')).toThrow('must be an absolute path');
+        expect(() => parsePolicy('defaults:\n  imagePolicy:\n    allowedRepositories: [nginx@sha256]')).toThrow('is not a valid repository pattern');
+        expect(() => parsePolicy('unknown: {}')).toThrow();
+    });
+
+    it('should reject invalid environment variables on load', () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        process.env.CONTAINER_SECURITY_PROFILE = 'unknown';
+        try {
+            expect(() => loadPolicy()).toThrow('environment.containerSecurityProfile');
+        } finally {
+            delete process.env.CONTAINER_SECURITY_PROFILE;
+            jest.restoreAllMocks();
+        }
+    });
+});
@@ -0,0 +1,389 @@
+import YAML from 'yaml';
+import { parseBindMountRules } from './bindMounts';
+import { compileRepositoryPattern, ImagePolicy } from './imagePolicy';
+import { NetworkPolicy, parseCidr } from './networkPolicy';
+import { parseConstraint } from './placement';
+import { KNOWN_CONTAINER_SECURITY_PROFILES } from './privileges';
+import { ExposedFields } from './redaction';
+import { createReloadableFile } from './reloadableFile';
+import { KNOWN_QUOTAS, Quotas } from './quotas';
+import { SERVICE_DEFAULT_FIELDS, ServiceDefaults, Ulimit } from './serviceDefaults';
+import { envFlag, isPlainObject } from './validation';
+
+// declarative policy, loaded from a YAML/JSON file and reloaded on change or SIGHUP
+//
+// defaults:
+//   allowPortExpose: false
+// tenants:
+//   tenant1:
+//     allowPortExpose: true
+//
+// settings not present in the file fall back to the environment variables
+
+const POLICY_PATH = process.env.POLICY_PATH || '/etc/swarmgate/policy.yml';
+const POLICY_WATCH_INTERVAL_MS = parseInt(process.env.POLICY_WATCH_INTERVAL_MS || '5000');
+
+export type TenantPolicy = {
+    // in production we should not allow the local volume driver if possible
+    // as ownership checking does not really work for it
+    allowedRegularVolumeDrivers: string[],
+    allowedVolumeTypes: string[],
+    // host paths that may be bind mounted, see bindMounts.ts for the format
+    allowedBindMounts: string[],
+    // external secret store plugins secrets may use, none by default
+    allowedSecretDrivers: string[],
+    // template drivers secrets and configs may use
+    allowedTemplateDrivers: string[],
+    allowPortExpose: boolean,
+    serviceAllowListedNetworks: string[],
+    // placement constraints selecting the nodes of the tenant, e.g. node.labels.pool==team-a
+    nodeSelector: string[],
+    // answer 404 for resources of other tenants as if they did not exist
+    hideUnownedResources: boolean,
+    // fields of /info, /version and /nodes tenants can see, see redaction.ts
+    exposedFields: ExposedFields,
+    networkPolicy: NetworkPolicy,
+    checkVolumeOwnershipViaPrefix: boolean,
+    onlyKnownRegistries: boolean,
+    // registries for which the X-Registry-Auth sent by the tenant is used
+    tenantManagedRegistries: string[],
+    imagePolicy: ImagePolicy,
+    // rewrite images to the digest resolved during the permission check
+    pinImageDigests: boolean,
+    // one of privileged, baseline or restricted
+    containerSecurityProfile: string,
+    quotas: Quotas,
+    serviceDefaults: ServiceDefaults,
+}
+
+type PolicyOverrides = Partial<TenantPolicy>;
+
+type Policy = {
+    defaults: TenantPolicy,
+    tenants: { [tenant: string]: PolicyOverrides }
+}
+
+function envList(name: string): string[] | undefined {
+    return process.env[name]?.split(',');
+}
+
+function policyFromEnvironment(): TenantPolicy {
+    return {
+        allowedRegularVolumeDrivers: envList('ALLOWED_REGULAR_VOLUMES_DRIVERS') || ['local'],
+        allowedVolumeTypes: envList('ALLOWED_VOLUME_TYPES') || ['bind', 'volume', 'tmpfs', 'npipe', 'cluster'],
+        allowedBindMounts: envList('ALLOWED_BIND_MOUNTS') || [],
+        allowedSecretDrivers: envList('ALLOWED_SECRET_DRIVERS') || [],
+        allowedTemplateDrivers: envList('ALLOWED_TEMPLATE_DRIVERS') || ['golang'],
+        allowPortExpose: envFlag('ALLOW_PORT_EXPOSE'),
+        serviceAllowListedNetworks: envList('SERVICE_ALLOW_LISTED_NETWORKS') || [],
+        nodeSelector: envList('NODE_SELECTOR') || [],
+        hideUnownedResources: envFlag('HIDE_UNOWNED_RESOURCES'),
+        exposedFields: {},
+        networkPolicy: {},
+        checkVolumeOwnershipViaPrefix: envFlag('CHECK_VOLUME_OWNERSHIP_VIA_PREFIX'),
+        onlyKnownRegistries: envFlag('ONLY_KNOWN_REGISTRIES'),
+        tenantManagedRegistries: envList('TENANT_MANAGED_REGISTRIES') || [],
+        imagePolicy: {},
+        pinImageDigests: envFlag('PIN_IMAGE_DIGESTS'),
+        containerSecurityProfile: process.env.CONTAINER_SECURITY_PROFILE || 'baseline',
+        quotas: {},
+        serviceDefaults: {},
+    };
+}
+
+// validation
+
+type FieldValidator<T> = (value: unknown, field: string) => T;
+
+const booleanField: FieldValidator<boolean> = (value, field) => {
+    if (typeof value !== 'boolean') {
+        throw new Error(`${field} must be a boolean.`);
+    }
+    return value;
+};
+
+const stringField: FieldValidator<string> = (value, field) => {
+    if (typeof value !== 'string') {
+        throw new Error(`${field} must be a string.`);
+    }
+    return value;
+};
+
+const stringArrayField: FieldValidator<string[]> = (value, field) => {
+    if (!Array.isArray(value) || value.some(entry => typeof entry !== 'string')) {
+        throw new Error(`${field} must be a list of strings.`);
+    }
+    return value;
+};
+
+const stringMapField: FieldValidator<{ [key: string]: string }> = (value, field) => {
+    if (!isPlainObject(value) || Object.values(value).some(entry => typeof entry !== 'string')) {
+        throw new Error(`${field} must be a map of strings.`);
+    }
+    return value as { [key: string]: string };
+};
+
+function arrayField<T>(validator: FieldValidator<T>): FieldValidator<T[]> {
+    return (value, field) => {
+        if (!Array.isArray(value)) {
+            throw new Error(`${field} must be a list.`);
+        }
+        return value.map((entry, index) => validator(entry, `${field}[${index}]`));
+    };
+}
+
+function objectField<T>(fields: { [K in keyof T]-?: FieldValidator<T[K]> }, required: (keyof T)[] = []): FieldValidator<T> {
+    return (value, field) => {
+        if (!isPlainObject(value)) {
+            throw new Error(`${field} must be an object.`);
+        }
+        const result: { [key: string]: unknown } = {};
+        for (const [key, entry] of Object.entries(value)) {
+            const validator = (fields as { [key: string]: FieldValidator<unknown> })[key];
+            if (!validator) {
+                throw new Error(`${field}.${key} is not a known setting.`);
+            }
+            result[key] = validator(entry, `${field}.${key}`);
+        }
+        for (const key of required) {
+            if (result[key as string] === undefined) {
+                throw new Error(`${field}.${String(key)} is required.`);
+            }
+        }
+        return result as T;
+    };
+}
+
+const nonNegativeNumberField: FieldValidator<number> = (value, field) => {
+    if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+        throw new Error(`${field} must be a non-negative number.`);
+    }
+    return value;
+};
+
+function enumField<T extends string>(allowed: readonly T[]): FieldValidator<T> {
+    return (value, field) => {
+        if (typeof value !== 'string' || !allowed.includes(value as T)) {
+            throw new Error(`${field} must be one of ${allowed.join(', ')}.`);
+        }
+        return value as T;
+    };
+}
+
+const bindMountRulesField: FieldValidator<string[]> = (value, field) => {
+    const rules = stringArrayField(value, field);
+    try {
+        parseBindMountRules(rules, 'tenant');
+    } catch (error: any) {
+        throw new Error(`${field}: ${error.message}`);
+    }
+    return rules;
+};
+
+const repositoryPatternsField: FieldValidator<string[]> = (value, field) => {
+    const patterns = stringArrayField(value, field);
+    for (const pattern of patterns) {
+        try {
+            compileRepositoryPattern(pattern);
+        } catch (error: any) {
+            throw new Error(`${field}: ${error.message}`);
+        }
+    }
+    return patterns;
+};
+
+const imagePolicyField = objectField<ImagePolicy>({
+    allowedRepositories: repositoryPatternsField,
+    deniedRepositories: repositoryPatternsField,
+    bannedTags: stringArrayField,
+    requireDigest: booleanField,
+});
+
+const networkPolicyField: FieldValidator<NetworkPolicy> = (value, field) => {
+    const networkPolicy = objectField<NetworkPolicy>({
+        allowedDrivers: stringArrayField,
+        allowedDriverOptions: stringArrayField,
+        allowAttachable: booleanField,
+        forceEncrypted: booleanField,
+        forceInternal: booleanField,
+        addressPool: stringField,
+        subnetSize: nonNegativeNumberField,
+    })(value, field);
+    const pool = networkPolicy.addressPool !== undefined ? parseCidr(networkPolicy.addressPool) : undefined;
+    if (networkPolicy.addressPool !== undefined && !pool) {
+        throw new Error(`${field}.addressPool must be an IPv4 CIDR, e.g. 10.128.0.0/16.`);
+    }
+    const subnetSize = networkPolicy.subnetSize;
+    if (subnetSize !== undefined && (!Number.isInteger(subnetSize) || subnetSize > 32 || (pool && subnetSize < pool.prefix))) {
+        throw new Error(`${field}.subnetSize must be a prefix length between the one of the address pool and 32.`);
+    }
+    return networkPolicy;
+};
+
+const nodeSelectorField: FieldValidator<string[]> = (value, field) => {
+    const constraints = stringArrayField(value, field);
+    for (const constraint of constraints) {
+        if (!parseConstraint(constraint)) {
+            throw new Error(`${field}: ${constraint} is not a valid placement constraint, e.g. node.labels.pool==team-a.`);
+        }
+    }
+    return constraints;
+};
+
+const quotasField = objectField<Quotas>(
+    Object.fromEntries(KNOWN_QUOTAS.map(quota => [quota, nonNegativeNumberField])) as { [K in keyof Quotas]-?: FieldValidator<number> }
+);
+
+const serviceDefaultsField = objectField<ServiceDefaults>({
+    resources: objectField<NonNullable<ServiceDefaults['resources']>>({
+        Limits: objectField({ NanoCPUs: nonNegativeNumberField, MemoryBytes: nonNegativeNumberField, Pids: nonNegativeNumberField }),
+        Reservations: objectField({ NanoCPUs: nonNegativeNumberField, MemoryBytes: nonNegativeNumberField }),
+    }),
+    ulimits: arrayField(objectField<Ulimit>({
+        Name: stringField,
+        Soft: nonNegativeNumberField,
+        Hard: nonNegativeNumberField
+    }, ['Name', 'Soft', 'Hard'])),
+    restartPolicy: objectField<NonNullable<ServiceDefaults['restartPolicy']>>({
+        Condition: enumField(['none', 'on-failure', 'any']),
+        Delay: nonNegativeNumberField,
+        MaxAttempts: nonNegativeNumberField,
+        Window: nonNegativeNumberField
+    }),
+    logDriver: objectField<NonNullable<ServiceDefaults['logDriver']>>({
+        Name: stringField,
+        Options: stringMapField
+    }, ['Name']),
+    stopGracePeriod: nonNegativeNumberField,
+    labels: stringMapField,
+    overridable: arrayField(enumField(SERVICE_DEFAULT_FIELDS)),
+});
+
+const TENANT_POLICY_FIELDS: { [K in keyof TenantPolicy]: FieldValidator<TenantPolicy[K]> } = {
+    allowedRegularVolumeDrivers: stringArrayField,
+    allowedVolumeTypes: stringArrayField,
+    allowedBindMounts: bindMountRulesField,
+    allowedSecretDrivers: stringArrayField,
+    allowedTemplateDrivers: stringArrayField,
+    allowPortExpose: booleanField,
+    serviceAllowListedNetworks: stringArrayField,
+    nodeSelector: nodeSelectorField,
+    hideUnownedResources: booleanField,
+    exposedFields: objectField<ExposedFields>({
+        info: stringArrayField,
+        version: stringArrayField,
+        node: stringArrayField,
+    }),
+    networkPolicy: networkPolicyField,
+    checkVolumeOwnershipViaPrefix: booleanField,
+    onlyKnownRegistries: booleanField,
+    tenantManagedRegistries: stringArrayField,
+    imagePolicy: imagePolicyField,
+    pinImageDigests: booleanField,
+    containerSecurityProfile: enumField(KNOWN_CONTAINER_SECURITY_PROFILES),
+    quotas: quotasField,
+    serviceDefaults: serviceDefaultsField,
+};
+
+function validatePolicyOverrides(raw: unknown, path: string): PolicyOverrides {
+    if (!isPlainObject(raw)) {
+        throw new Error(`${path} must be an object.`);
+    }
+    const overrides: { [key: string]: unknown } = {};
+    for (const [key, value] of Object.entries(raw)) {
+        const validator = (TENANT_POLICY_FIELDS as { [key: string]: FieldValidator<unknown> })[key];
+        if (!validator) {
+            throw new Error(`${path}.${key} is not a known policy setting.`);
+        }
+        overrides[key] = validator(value, `${path}.${key}`);
+    }
+    return overrides as PolicyOverrides;
+}
+
+// nested settings are merged one level deep, everything else is replaced
+function mergePolicy<T extends object>(base: T, overrides: Partial<T>): T {
+    const merged: any = { ...base };
+    for (const [key, value] of Object.entries(overrides)) {
+        if (isPlainObject(value) && isPlainObject(merged[key])) {
+            merged[key] = { ...merged[key], ...value };
+        } else {
+            merged[key] = value;
+        }
+    }
+    return merged;
+}
+
+export function parsePolicy(contents: string): Policy {
+    const raw = YAML.parse(contents);
+    if (raw === null || raw === undefined) {
+        return { defaults: policyFromEnvironment(), tenants: {} };
+    }
+    if (!isPlainObject(raw)) {
+        throw new Error('policy must be an object.');
+    }
+    for (const key of Object.keys(raw)) {
+        if (key !== 'defaults' && key !== 'tenants') {
+            throw new Error(`${key} is not a known policy section, expected defaults or tenants.`);
+        }
+    }
+
+    const defaults = raw.defaults === undefined ? {} : validatePolicyOverrides(raw.defaults, 'defaults');
+    const tenants: { [tenant: string]: PolicyOverrides } = {};
+    if (raw.tenants !== undefined) {
+        if (!isPlainObject(raw.tenants)) {
+            throw new Error('tenants must be an object.');
+        }
+        for (const [tenant, overrides] of Object.entries(raw.tenants)) {
+            tenants[tenant] = validatePolicyOverrides(overrides, `tenants.${tenant}`);
+        }
+    }
+    return {
+        defaults: mergePolicy(policyFromEnvironment(), defaults),
+        tenants: tenants
+    };
+}
+
+// state
+
+let currentPolicy: Policy = {
+    defaults: policyFromEnvironment(),
+    tenants: {}
+};
+let tenantPolicyCache = new Map<string, TenantPolicy>();
+
+function validateEnvironmentPolicy(policy: TenantPolicy): TenantPolicy {
+    return validatePolicyOverrides(policy, 'environment') as TenantPolicy;
+}
+
+export function getTenantPolicy(tenant: string): TenantPolicy {
+    let policy = tenantPolicyCache.get(tenant);
+    if (!policy) {
+        policy = mergePolicy(currentPolicy.defaults, currentPolicy.tenants[tenant] || {});
+        tenantPolicyCache.set(tenant, policy);
+    }
+    return policy;
+}
+
+function setPolicy(policy: Policy) {
+    currentPolicy = policy;
+    tenantPolicyCache = new Map();
+}
+
+const policyFile = createReloadableFile({
+    description: 'policy file',
+    path: POLICY_PATH,
+    watchIntervalMs: POLICY_WATCH_INTERVAL_MS,
+    apply: contents => setPolicy(parsePolicy(contents)),
+    applyMissing: () => console.log('Using environment variables only')
+});
+
+// validates the environment variables and loads the policy file if it exists.
+// Throws if either is invalid.
+export function loadPolicy() {
+    setPolicy({ defaults: validateEnvironmentPolicy(policyFromEnvironment()), tenants: {} });
+    policyFile.load();
+}
+
+// reloads the policy file, keeping the last good policy if the new one is invalid
+export const reloadPolicy = policyFile.reload;
+export const watchPolicy = policyFile.watch;
@@ -0,0 +1,87 @@
+import { checkContainerPrivileges } from './privileges';
+
+describe('container privileges', () => {
+    const restrictedSpec = { User: '1000', CapabilityDrop: ['ALL'], Privileges: { NoNewPrivileges: true } };
+
+    it('should accept capabilities with and without the CAP_ prefix in any case', () => {
+        expect(checkContainerPrivileges({ CapabilityAdd: ['NET_BIND_SERVICE', 'cap_chown', 'Cap_Kill'] }, 'baseline')).toEqual([]);
+        expect(checkContainerPrivileges({ CapabilityAdd: ['CAP_SYS_ADMIN'] }, 'baseline')).toEqual([
+            'Access denied: ContainerSpec.CapabilityAdd must not add CAP_SYS_ADMIN (security profile baseline).'
+        ]);
+        expect(checkContainerPrivileges({ CapabilityAdd: ['net_admin'] }, 'baseline')).toHaveLength(1);
+    });
+
+    it('should only allow adding ALL capabilities in the privileged profile', () => {
+        expect(checkContainerPrivileges({ CapabilityAdd: ['ALL'] }, 'baseline')).toHaveLength(1);
+        expect(checkContainerPrivileges({ CapabilityAdd: ['ALL'] }, 'privileged')).toEqual([]);
+    });
+
+    it('should require restricted containers to drop all capabilities', () => {
+        expect(checkContainerPrivileges(restrictedSpec, 'restricted')).toEqual([]);
+        expect(checkContainerPrivileges({ ...restrictedSpec, CapabilityDrop: ['cap_all'] }, 'restricted')).toEqual([]);
+        expect(checkContainerPrivileges({ ...restrictedSpec, CapabilityDrop: ['NET_RAW'] }, 'restricted')).toEqual([
+            'Access denied: ContainerSpec.CapabilityDrop must drop ALL (security profile restricted).'
+        ]);
+        expect(checkContainerPrivileges({ ...restrictedSpec, CapabilityAdd: ['NET_BIND_SERVICE'] }, 'restricted')).toEqual([]);
+        expect(checkContainerPrivileges({ ...restrictedSpec, CapabilityAdd: ['CHOWN'] }, 'restricted')).toHaveLength(1);
+    });
+
+    it('should detect root users in the restricted profile', () => {
+        const rootMessage = 'Access denied: ContainerSpec.User must be set to a non-root user (security profile restricted).';
+        for (const user of [undefined, '', '0', '0:0', 'root', 'root:1000']) {
+            expect(checkContainerPrivileges({ ...restrictedSpec, User: user }, 'restricted')).toEqual([rootMessage]);
+        }
+        expect(checkContainerPrivileges({ ...restrictedSpec, User: '1000:0' }, 'restricted')).toEqual([]);
+        expect(checkContainerPrivileges({ ...restrictedSpec, User: 'nobody' }, 'restricted')).toEqual([]);
+        expect(checkContainerPrivileges({ User: 'root' }, 'baseline')).toEqual([]);
+    });
+
+    it('should require no new privileges in the restricted profile', () => {
+        expect(checkContainerPrivileges({ ...restrictedSpec, Privileges: {} }, 'restricted')).toEqual([
+            'Access denied: ContainerSpec.Privileges.NoNewPrivileges must be enabled (security profile restricted).'
+        ]);
+    });
+
+    it('should only allow safe sysctls', () => {
+        expect(checkContainerPrivileges({ Sysctls: { 'net.ipv4.ip_unprivileged_port_start': '0' } }, 'baseline')).toEqual([]);
+        expect(checkContainerPrivileges({ Sysctls: { 'kernel.msgmax': '1' } }, 'baseline')).toHaveLength(1);
+        expect(checkContainerPrivileges({ Sysctls: { 'kernel.msgmax': '1' } }, 'privileged')).toEqual([]);
+    });
+
+    it('should deny weakened seccomp and AppArmor profiles', () => {
+        expect(checkContainerPrivileges({ Privileges: { Seccomp: { Mode: 'unconfined' } } }, 'baseline')).toEqual([
+            'Access denied: ContainerSpec.Privileges.Seccomp must not be unconfined (security profile baseline).'
+        ]);
+        expect(checkContainerPrivileges({ Privileges: { Seccomp: { Mode: 'custom', Profile: '{"defaultAction":"SCMP_ACT_ALLOW"}' } } }, 'baseline')).toEqual([
+            'Access denied: ContainerSpec.Privileges.Seccomp must not use a custom profile (security profile baseline).'
+        ]);
+        expect(checkContainerPrivileges({ Privileges: { Seccomp: { Mode: 'custom', Profile: '{}' } } }, 'privileged')).toEqual([]);
+        expect(checkContainerPrivileges({ ...restrictedSpec, Privileges: { NoNewPrivileges: true, Seccomp: { Mode: 'custom' } } }, 'restricted')).toEqual([
+            'Access denied: ContainerSpec.Privileges.Seccomp must not use a custom profile (security profile restricted).'
+        ]);
+        expect(checkContainerPrivileges({ Privileges: { Seccomp: { Mode: 'default' } } }, 'baseline')).toEqual([]);
+        expect(checkContainerPrivileges({ Privileges: { AppArmor: { Mode: 'disabled' } } }, 'baseline')).toEqual([
+            'Access denied: ContainerSpec.Privileges.AppArmor must not be disabled (security profile baseline).'
+        ]);
+        expect(checkContainerPrivileges({ Privileges: { Seccomp: { Mode: 'unconfined' }, AppArmor: { Mode: 'disabled' } } }, 'privileged')).toEqual([]);
+    });
+
+    it('should deny custom SELinux contexts', () => {
+        expect(checkContainerPrivileges({ Privileges: { SELinuxContext: { Type: 'container_t', Level: 's0:c1,c2' } } }, 'baseline')).toEqual([]);
+        expect(checkContainerPrivileges({ Privileges: { SELinuxContext: { Disable: true, User: 'system_u', Type: 'spc_t' } } }, 'baseline')).toEqual([
+            'Access denied: ContainerSpec.Privileges.SELinuxContext must not disable SELinux (security profile baseline).',
+            'Access denied: ContainerSpec.Privileges.SELinuxContext must not set a custom user or role (security profile baseline).',
+            'Access denied: ContainerSpec.Privileges.SELinuxContext must not use type spc_t (security profile baseline).'
+        ]);
+        expect(checkContainerPrivileges({ Privileges: { SELinuxContext: { Type: 'spc_t' } } }, 'privileged')).toEqual([]);
+    });
+
+    it('should deny credential specs outside the privileged profile', () => {
+        expect(checkContainerPrivileges({ Privileges: { CredentialSpec: { Config: 'gmsa' } } }, 'baseline')).toHaveLength(1);
+        expect(checkContainerPrivileges({ Privileges: { CredentialSpec: {} } }, 'baseline')).toEqual([]);
+    });
+
+    it('should deny everything for unknown profiles', () => {
+        expect(checkContainerPrivileges({}, 'unknown')).toEqual(['Unknown container security profile unknown.']);
+    });
+});
@@ -0,0 +1,202 @@
+// container privilege policy for services/create and services/:id/update
+
+export type ContainerSecuritySpec = {
+    User?: string,
+    CapabilityAdd?: string[],
+    CapabilityDrop?: string[],
+    Sysctls?: { [key: string]: string },
+    Privileges?: {
+        CredentialSpec?: any,
+        SELinuxContext?: {
+            Disable?: boolean,
+            User?: string,
+            Role?: string,
+            Type?: string,
+            Level?: string
+        },
+        Seccomp?: {
+            Mode?: string,
+            Profile?: string
+        },
+        AppArmor?: {
+            Mode?: string
+        },
+        NoNewPrivileges?: boolean
+    }
+}
+
+type ContainerSecurityProfile = {
+    // capabilities that may be added via CapabilityAdd
+    allowedCapabilities: string[] | 'all',
+    // capabilities that have to be dropped via CapabilityDrop
+    requiredDroppedCapabilities: string[],
+    // sysctls that are namespaced and safe to set per container
+    allowedSysctls: string[] | 'all',
+    allowRootUser: boolean,
+    requireNoNewPrivileges: boolean,
+    allowUnconfinedSeccomp: boolean,
+    allowCustomSeccomp: boolean,
+    allowDisabledAppArmor: boolean,
+    allowCustomSELinux: boolean,
+    allowedSELinuxTypes: string[],
+    allowCredentialSpec: boolean
+}
+
+// the baseline and restricted profiles follow the kubernetes pod security standards
+const BASELINE_CAPABILITIES = [
+    'AUDIT_WRITE', 'CHOWN', 'DAC_OVERRIDE', 'FOWNER', 'FSETID', 'KILL', 'MKNOD',
+    'NET_BIND_SERVICE', 'SETFCAP', 'SETGID', 'SETPCAP', 'SETUID', 'SYS_CHROOT'
+];
+
+const SAFE_SYSCTLS = [
+    'kernel.shm_rmid_forced',
+    'net.ipv4.ip_local_port_range',
+    'net.ipv4.ip_local_reserved_ports',
+    'net.ipv4.ip_unprivileged_port_start',
+    'net.ipv4.ping_group_range',
+    'net.ipv4.tcp_syncookies',
+    'net.ipv4.tcp_keepalive_time',
+    'net.ipv4.tcp_fin_timeout',
+    'net.ipv4.tcp_keepalive_intvl',
+    'net.ipv4.tcp_keepalive_probes'
+];
+
+const SAFE_SELINUX_TYPES = ['', 'container_t', 'container_init_t', 'container_kvm_t'];
+
+const CONTAINER_SECURITY_PROFILES: { [name: string]: ContainerSecurityProfile } = {
+    privileged: {
+        allowedCapabilities: 'all',
+        requiredDroppedCapabilities: [],
+        allowedSysctls: 'all',
+        allowRootUser: true,
+        requireNoNewPrivileges: false,
+        allowUnconfinedSeccomp: true,
+        allowCustomSeccomp: true,
+        allowDisabledAppArmor: true,
+        allowCustomSELinux: true,
+        allowedSELinuxTypes: [],
+        allowCredentialSpec: true
+    },
+    baseline: {
+        allowedCapabilities: BASELINE_CAPABILITIES,
+        requiredDroppedCapabilities: [],
+        allowedSysctls: SAFE_SYSCTLS,
+        allowRootUser: true,
+        requireNoNewPrivileges: false,
+        allowUnconfinedSeccomp: false,
+        // custom profiles are sent inline by the tenant and can allow every syscall
+        allowCustomSeccomp: false,
+        allowDisabledAppArmor: false,
+        allowCustomSELinux: false,
+        allowedSELinuxTypes: SAFE_SELINUX_TYPES,
+        allowCredentialSpec: false
+    },
+    restricted: {
+        allowedCapabilities: ['NET_BIND_SERVICE'],
+        requiredDroppedCapabilities: ['ALL'],
+        allowedSysctls: SAFE_SYSCTLS,
+        allowRootUser: false,
+        requireNoNewPrivileges: true,
+        allowUnconfinedSeccomp: false,
+        allowCustomSeccomp: false,
+        allowDisabledAppArmor: false,
+        allowCustomSELinux: false,
+        allowedSELinuxTypes: SAFE_SELINUX_TYPES,
+        allowCredentialSpec: false
+    }
+};
+
+export const KNOWN_CONTAINER_SECURITY_PROFILES = Object.keys(CONTAINER_SECURITY_PROFILES);
+
+// docker accepts capabilities with and without the CAP_ prefix
+function normalizeCapability(capability: string): string {
+    const upper = capability.toUpperCase();
+    if (upper.startsWith('CAP_')) {
+        return upper.substring('CAP_'.length);
+    }
+    return upper;
+}
+
+function isRootUser(user: string | undefined): boolean {
+    // an unset user means the image default, which we can't check here
+    if (!user) {
+        return true;
+    }
+    const uid = user.split(':')[0];
+    return uid === 'root' || uid === '0';
+}
+
+// returns a list of violations, empty if the container spec is allowed by the profile
+export function checkContainerPrivileges(containerSpec: ContainerSecuritySpec, profileName: string): string[] {
+    const profile = CONTAINER_SECURITY_PROFILES[profileName];
+    if (!profile) {
+        return [`Unknown container security profile ${profileName}.`];
+    }
+    const violations: string[] = [];
+    const deny = (field: string, reason: string) => {
+        violations.push(`Access denied: ContainerSpec.${field} ${reason} (security profile ${profileName}).`);
+    };
+
+    if (profile.allowedCapabilities !== 'all') {
+        for (const capability of containerSpec.CapabilityAdd || []) {
+            if (!profile.allowedCapabilities.includes(normalizeCapability(capability))) {
+                deny('CapabilityAdd', `must not add ${capability}`);
+            }
+        }
+    }
+
+    const dropped = (containerSpec.CapabilityDrop || []).map(normalizeCapability);
+    for (const capability of profile.requiredDroppedCapabilities) {
+        if (!dropped.includes(capability)) {
+            deny('CapabilityDrop', `must drop ${capability}`);
+        }
+    }
+
+    if (profile.allowedSysctls !== 'all') {
+        for (const sysctl of Object.keys(containerSpec.Sysctls || {})) {
+            if (!profile.allowedSysctls.includes(sysctl)) {
+                deny('Sysctls', `must not set ${sysctl}`);
+            }
+        }
+    }
+
+    if (!profile.allowRootUser && isRootUser(containerSpec.User)) {
+        deny('User', 'must be set to a non-root user');
+    }
+
+    const privileges = containerSpec.Privileges || {};
+    if (profile.requireNoNewPrivileges && !privileges.NoNewPrivileges) {
+        deny('Privileges.NoNewPrivileges', 'must be enabled');
+    }
+
+    const seccompMode = privileges.Seccomp?.Mode;
+    if (seccompMode === 'unconfined' && !profile.allowUnconfinedSeccomp) {
+        deny('Privileges.Seccomp', 'must not be unconfined');
+    }
+    if (seccompMode === 'custom' && !profile.allowCustomSeccomp) {
+        deny('Privileges.Seccomp', 'must not use a custom profile');
+    }
+
+    if (privileges.AppArmor?.Mode === 'disabled' && !profile.allowDisabledAppArmor) {
+        deny('Privileges.AppArmor', 'must not be disabled');
+    }
+
+    const seLinux = privileges.SELinuxContext;
+    if (seLinux && !profile.allowCustomSELinux) {
+        if (seLinux.Disable) {
+            deny('Privileges.SELinuxContext', 'must not disable SELinux');
+        }
+        if (seLinux.User || seLinux.Role) {
+            deny('Privileges.SELinuxContext', 'must not set a custom user or role');
+        }
+        if (seLinux.Type && !profile.allowedSELinuxTypes.includes(seLinux.Type)) {
+            deny('Privileges.SELinuxContext', `must not use type ${seLinux.Type}`);
+        }
+    }
+
+    if (privileges.CredentialSpec && Object.keys(privileges.CredentialSpec).length > 0 && !profile.allowCredentialSpec) {
+        deny('Privileges.CredentialSpec', 'must not be set');
+    }
+
+    return violations;
+}
@@ -0,0 +1,69 @@
+import { addServiceUsage, checkQuotas, emptyQuotaUsage, getServiceReplicas, hasQuotas, isGlobalService } from './quotas';
+
+describe('quotas', () => {
+    it('should count replicas per service mode', () => {
+        expect(getServiceReplicas({}, 5)).toBe(1);
+        expect(getServiceReplicas({ Mode: { Replicated: { Replicas: 3 } } }, 5)).toBe(3);
+        expect(getServiceReplicas({ Mode: { Replicated: { Replicas: 0 } } }, 5)).toBe(0);
+        expect(getServiceReplicas({ Mode: { Global: {} } }, 5)).toBe(5);
+        expect(getServiceReplicas({ Mode: { GlobalJob: {} } } as any, 5)).toBe(5);
+        expect(getServiceReplicas({ Mode: { ReplicatedJob: { MaxConcurrent: 2, TotalCompletions: 10 } } } as any, 5)).toBe(2);
+        expect(getServiceReplicas({ Mode: { ReplicatedJob: {} } } as any, 5)).toBe(1);
+
+        expect(isGlobalService({ Mode: { Global: {} } })).toBe(true);
+        expect(isGlobalService({ Mode: { GlobalJob: {} } } as any)).toBe(true);
+        expect(isGlobalService({ Mode: { Replicated: {} } })).toBe(false);
+    });
+
+    it('should multiply resources by replicas and round CPUs to millicores', () => {
+        const usage = emptyQuotaUsage();
+        addServiceUsage(usage, {
+            Mode: { Replicated: { Replicas: 3 } },
+            TaskTemplate: {
+                Resources: {
+                    Reservations: { NanoCPUs: 100000000, MemoryBytes: 64 * 1024 * 1024 },
+                    Limits: { NanoCPUs: 333333333, MemoryBytes: 128 * 1024 * 1024 }
+                }
+            }
+        }, 1);
+        expect(usage.services).toBe(1);
+        expect(usage.replicas).toBe(3);
+        expect(usage.cpuReservation).toBe(0.3);
+        expect(usage.cpuLimit).toBe(1);
+        expect(usage.memoryReservation).toBe(3 * 64 * 1024 * 1024);
+        expect(usage.memoryLimit).toBe(3 * 128 * 1024 * 1024);
+    });
+
+    it('should count global services once per node', () => {
+        const usage = emptyQuotaUsage();
+        addServiceUsage(usage, { Mode: { Global: {} }, TaskTemplate: { Resources: { Limits: { NanoCPUs: 500000000 } } } }, 4);
+        addServiceUsage(usage, {}, 4);
+        expect(usage.services).toBe(2);
+        expect(usage.replicas).toBe(5);
+        expect(usage.cpuLimit).toBe(2);
+    });
+
+    it('should report every exceeded quota', () => {
+        const current = { ...emptyQuotaUsage(), services: 2, replicas: 4 };
+        const requested = { ...emptyQuotaUsage(), services: 3, replicas: 6 };
+        expect(checkQuotas({ maxServices: 3, maxReplicas: 8 }, current, requested)).toEqual([]);
+        expect(checkQuotas({ maxServices: 2, maxReplicas: 5 }, current, requested)).toEqual([
+            'Access denied: Quota exceeded for services, requested 3 with 2 currently in use, limit is 2.',
+            'Access denied: Quota exceeded for replicas, requested 6 with 4 currently in use, limit is 5.'
+        ]);
+    });
+
+    it('should let tenants above their quota scale down', () => {
+        const current = { ...emptyQuotaUsage(), replicas: 10 };
+        expect(checkQuotas({ maxReplicas: 5 }, current, { ...emptyQuotaUsage(), replicas: 8 })).toEqual([]);
+        expect(checkQuotas({ maxReplicas: 5 }, current, { ...emptyQuotaUsage(), replicas: 10 })).toEqual([]);
+        expect(checkQuotas({ maxReplicas: 5 }, current, { ...emptyQuotaUsage(), replicas: 11 })).toHaveLength(1);
+    });
+
+    it('should treat unset quotas as unlimited', () => {
+        expect(hasQuotas({})).toBe(false);
+        expect(hasQuotas({ maxVolumes: 0 })).toBe(true);
+        expect(checkQuotas({}, emptyQuotaUsage(), { ...emptyQuotaUsage(), volumes: 100 })).toEqual([]);
+        expect(checkQuotas({ maxVolumes: 0 }, emptyQuotaUsage(), { ...emptyQuotaUsage(), volumes: 1 })).toHaveLength(1);
+    });
+});
@@ -0,0 +1,113 @@
+import Docker from 'dockerode';
+
+// per tenant resource quotas. CPUs are given in cores, memory in bytes.
+// quotas that are not set are unlimited
+export type Quotas = {
+    maxServices?: number,
+    maxReplicas?: number,
+    maxCpuReservation?: number,
+    maxCpuLimit?: number,
+    maxMemoryReservation?: number,
+    maxMemoryLimit?: number,
+    maxNetworks?: number,
+    maxSecrets?: number,
+    maxConfigs?: number,
+    maxVolumes?: number,
+}
+
+export type QuotaUsage = {
+    services: number,
+    replicas: number,
+    cpuReservation: number,
+    cpuLimit: number,
+    memoryReservation: number,
+    memoryLimit: number,
+    networks: number,
+    secrets: number,
+    configs: number,
+    volumes: number,
+}
+
+const QUOTA_FOR_USAGE: { [K in keyof QuotaUsage]: keyof Quotas } = {
+    services: 'maxServices',
+    replicas: 'maxReplicas',
+    cpuReservation: 'maxCpuReservation',
+    cpuLimit: 'maxCpuLimit',
+    memoryReservation: 'maxMemoryReservation',
+    memoryLimit: 'maxMemoryLimit',
+    networks: 'maxNetworks',
+    secrets: 'maxSecrets',
+    configs: 'maxConfigs',
+    volumes: 'maxVolumes',
+};
+
+export const KNOWN_QUOTAS = Object.values(QUOTA_FOR_USAGE);
+
+export function emptyQuotaUsage(): QuotaUsage {
+    return {
+        services: 0,
+        replicas: 0,
+        cpuReservation: 0,
+        cpuLimit: 0,
+        memoryReservation: 0,
+        memoryLimit: 0,
+        networks: 0,
+        secrets: 0,
+        configs: 0,
+        volumes: 0,
+    };
+}
+
+export function hasQuotas(quotas: Quotas): boolean {
+    return Object.values(quotas).some(limit => limit !== undefined);
+}
+
+// number of tasks a service runs. global services run one task per node
+export function getServiceReplicas(spec: Docker.ServiceSpec, nodeCount: number): number {
+    const mode: any = spec.Mode || {};
+    if (mode.Global || mode.GlobalJob) {
+        return nodeCount;
+    }
+    if (mode.ReplicatedJob) {
+        return mode.ReplicatedJob.MaxConcurrent ?? 1;
+    }
+    return mode.Replicated?.Replicas ?? 1;
+}
+
+export function isGlobalService(spec: Docker.ServiceSpec): boolean {
+    const mode: any = spec.Mode || {};
+    return !!(mode.Global || mode.GlobalJob);
+}
+
+// docker only supports a resolution of 1/1000 of a cpu
+function roundCpus(cpus: number): number {
+    return Math.round(cpus * 1000) / 1000;
+}
+
+export function addServiceUsage(usage: QuotaUsage, spec: Docker.ServiceSpec, nodeCount: number) {
+    const replicas = getServiceReplicas(spec, nodeCount);
+    const resources: any = (spec.TaskTemplate as any)?.Resources || {};
+    usage.services += 1;
+    usage.replicas += replicas;
+    usage.cpuReservation = roundCpus(usage.cpuReservation + replicas * (resources.Reservations?.NanoCPUs || 0) / 1e9);
+    usage.cpuLimit = roundCpus(usage.cpuLimit + replicas * (resources.Limits?.NanoCPUs || 0) / 1e9);
+    usage.memoryReservation += replicas * (resources.Reservations?.MemoryBytes || 0);
+    usage.memoryLimit += replicas * (resources.Limits?.MemoryBytes || 0);
+}
+
+// returns a violation for every quota the request would exceed.
+// usage that does not grow is always allowed so that tenants above
+// their quota can still scale down
+export function checkQuotas(quotas: Quotas, current: QuotaUsage, requested: QuotaUsage): string[] {
+    const violations: string[] = [];
+    for (const [usageKey, quotaKey] of Object.entries(QUOTA_FOR_USAGE) as [keyof QuotaUsage, keyof Quotas][]) {
+        const limit = quotas[quotaKey];
+        if (limit === undefined) {
+            continue;
+        }
+        if (requested[usageKey] > limit && requested[usageKey] > current[usageKey]) {
+            violations.push(`Access denied: Quota exceeded for ${usageKey}, requested ${requested[usageKey]} with ${current[usageKey]} currently in use, limit is ${limit}.`);
+        }
+    }
+    return violations;
+}
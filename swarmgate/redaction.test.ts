@@ -0,0 +1,40 @@
+import { DEFAULT_NODE_FIELDS, pickFields, reduceSharedNetwork } from "./redaction";
+
+describe('redaction', () => {
+    it('should only keep the exposed fields', () => {
+        const info = { ServerVersion: '24.0.5', Swarm: { ControlAvailable: true, RemoteManagers: [{ Addr: '10.0.0.1:2377' }] }, Plugins: {} };
+        expect(pickFields(info, ['ServerVersion', 'Swarm.ControlAvailable', 'Swarm.Missing'])).toEqual({ ServerVersion: '24.0.5', Swarm: { ControlAvailable: true } });
+        expect(pickFields(info, ['*'])).toBe(info);
+    });
+
+    it('should mask node addresses and labels by default', () => {
+        const node = {
+            ID: 'node1',
+            Spec: { Role: 'worker', Availability: 'active', Labels: { pool: 'team-a' } },
+            Description: { Hostname: 'worker-1', Engine: { EngineVersion: '24.0.5', Labels: { secret: 'x' } }, TLSInfo: { TrustRoot: '...' } },
+            Status: { State: 'ready', Addr: '10.0.0.2' },
+        };
+        expect(pickFields(node, DEFAULT_NODE_FIELDS)).toEqual({
+            ID: 'node1',
+            Spec: { Role: 'worker', Availability: 'active' },
+            Description: { Hostname: 'worker-1', Engine: { EngineVersion: '24.0.5' } },
+            Status: { State: 'ready' },
+        });
+        expect(pickFields(node, [...DEFAULT_NODE_FIELDS, 'Spec.Labels.pool']).Spec.Labels).toEqual({ pool: 'team-a' });
+    });
+
+    it('should reduce shared networks to the tenant\'s endpoints', () => {
+        const network = {
+            Name: 'traefik-public', Id: 'net1', Driver: 'overlay', Scope: 'swarm',
+            IPAM: { Config: [{ Subnet: '10.0.1.0/24' }] },
+            Containers: { c1: { Name: 'tenant1_web.1.x', IPv4Address: '10.0.1.5/24' }, c2: { Name: 'tenant2_web.1.y', IPv4Address: '10.0.1.6/24' } },
+            Services: { tenant1_web: { VIP: '10.0.1.2' }, tenant2_web: { VIP: '10.0.1.3' } },
+            Peers: [{ Name: 'node1', IP: '192.168.0.10' }],
+        };
+        expect(reduceSharedNetwork(network, new Set(['c1']), new Set(['tenant1_web']))).toEqual({
+            Name: 'traefik-public', Id: 'net1', Driver: 'overlay', Scope: 'swarm',
+            Containers: { c1: { Name: 'tenant1_web.1.x', IPv4Address: '10.0.1.5/24' } },
+            Services: { tenant1_web: { VIP: '10.0.1.2' } },
+        });
+    });
+});
@@ -0,0 +1,113 @@
+// cluster wide information in /info, /version and /nodes is reduced to an allow list of fields.
+// Fields are dot separated paths, e.g. Swarm.ControlAvailable or Spec.Labels.pool; * exposes everything
+
+export type ExposedFields = {
+    info?: string[],
+    version?: string[],
+    node?: string[]
+}
+
+// what the docker cli needs to work against the proxy
+export const DEFAULT_INFO_FIELDS = [
+    'ServerVersion',
+    'OperatingSystem',
+    'OSType',
+    'OSVersion',
+    'Architecture',
+    'NCPU',
+    'MemTotal',
+    'ExperimentalBuild',
+    'IndexServerAddress',
+    // docker stack and docker node ps rely on these
+    'Swarm.NodeID',
+    'Swarm.LocalNodeState',
+    'Swarm.ControlAvailable',
+    // counted for the tenant only
+    'Containers',
+    'ContainersRunning',
+    'ContainersPaused',
+    'ContainersStopped',
+];
+
+export const DEFAULT_VERSION_FIELDS = [
+    'Platform.Name',
+    'Version',
+    'ApiVersion',
+    'MinAPIVersion',
+    'GitCommit',
+    'GoVersion',
+    'Os',
+    'Arch',
+    'BuildTime',
+    'Experimental',
+];
+
+// no addresses, labels, TLS information or plugins
+export const DEFAULT_NODE_FIELDS = [
+    'ID',
+    'Version',
+    'CreatedAt',
+    'UpdatedAt',
+    'Spec.Role',
+    'Spec.Availability',
+    'Description.Hostname',
+    'Description.Platform',
+    'Description.Resources',
+    'Description.Engine.EngineVersion',
+    'Status.State',
+    'ManagerStatus.Leader',
+    'ManagerStatus.Reachability',
+];
+
+function getPath(source: any, segments: string[]): any {
+    let value = source;
+    for (const segment of segments) {
+        if (!value || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, segment)) {
+            return undefined;
+        }
+        value = value[segment];
+    }
+    return value;
+}
+
+function setPath(target: any, segments: string[], value: any) {
+    let current = target;
+    for (const segment of segments.slice(0, -1)) {
+        if (!current[segment] || typeof current[segment] !== 'object') {
+            current[segment] = {};
+        }
+        current = current[segment];
+    }
+    current[segments[segments.length - 1]] = value;
+}
+
+export function pickFields(source: any, fields: string[]): any {
+    if (fields.includes('*')) {
+        return source;
+    }
+    const result: any = {};
+    for (const field of fields) {
+        const segments = field.split('.');
+        const value = getPath(source, segments);
+        if (value !== undefined) {
+            setPath(result, segments, value);
+        }
+    }
+    return result;
+}
+
+// allow listed networks of other owners, e.g. the ingress network of a reverse proxy
+const SHARED_NETWORK_FIELDS = ['Name', 'Id', 'Driver', 'Scope'];
+
+// reduces the inspect result of a shared network to what is needed to attach to it.
+// Only the tenant's own containers and services are listed, peers are never shown
+export function reduceSharedNetwork(network: any, ownedContainerIds: Set<string>, ownedServiceNames: Set<string>): any {
+    const reduced = pickFields(network, SHARED_NETWORK_FIELDS);
+    if (network.Containers) {
+        reduced.Containers = Object.fromEntries(Object.entries(network.Containers).filter(([id]) => ownedContainerIds.has(id)));
+    }
+    if (network.Services) {
+        reduced.Services = Object.fromEntries(Object.entries(network.Services).filter(([name]) => ownedServiceNames.has(name)));
+    }
+    return reduced;
+}
@@ -0,0 +1,30 @@
+import { decodeRegistryAuthHeader, encodeRegistryAuthHeader, parseRegistryAuthConfig } from "./registryAuth";
+
+describe('registry auth', () => {
+    it('should separate shared and per tenant credentials', () => {
+        const config = parseRegistryAuthConfig(JSON.stringify({
+            'registry.example.com': { username: 'deploy', password: 'secret' },
+            'docker.io': { anonymous: true },
+            tenants: {
+                tenant1: { 'registry.example.com': { credentialHelper: 'ecr-login' } }
+            }
+        }));
+        expect(Object.keys(config.shared)).toEqual(['registry.example.com', 'docker.io']);
+        expect(config.tenants.tenant1['registry.example.com']).toEqual({ credentialHelper: 'ecr-login' });
+    });
+
+    it('should reject invalid credentials', () => {
+        expect(() => parseRegistryAuthConfig('{')).toThrow('invalid JSON');
+        expect(() => parseRegistryAuthConfig('{"ghcr.io": {"username": "deploy"}}')).toThrow('ghcr.io needs exactly one of');
+        expect(() => parseRegistryAuthConfig('{"ghcr.io": {"password": 1}}')).toThrow('ghcr.io.password must be a string.');
+        expect(() => parseRegistryAuthConfig('{"ghcr.io": {"credentialHelper": "../evil"}}')).toThrow('credentialHelper must be the name');
+        expect(() => parseRegistryAuthConfig('{"ghcr.io": {"passwordEnv": "SWARMGATE_TEST_UNSET"}}')).toThrow('SWARMGATE_TEST_UNSET, which is not set');
+        expect(() => parseRegistryAuthConfig('{"tenants": {"tenant1": {"ghcr.io": {"pasword": "x"}}}}')).toThrow('tenants.tenant1.ghcr.io.pasword is not a known setting.');
+    });
+
+    it('should round trip X-Registry-Auth headers', () => {
+        const header = encodeRegistryAuthHeader({ anonymous: false, username: 'deploy', password: 'secret', serveraddress: 'ghcr.io' });
+        expect(decodeRegistryAuthHeader(header)).toEqual({ username: 'deploy', password: 'secret', serveraddress: 'ghcr.io', email: undefined, identitytoken: undefined });
+        expect(decodeRegistryAuthHeader('not json')).toBeUndefined();
+    });
+});
@@ -0,0 +1,235 @@
+import Docker from 'dockerode';
+import { execFile } from 'child_process';
+import { createReloadableFile } from './reloadableFile';
+import { isPlainObject } from './validation';
+
+// registry credentials used for image permission checks and service deployments.
+// Loaded from a JSON file (usually a swarm secret) and reloaded on change or SIGHUP:
+//
+// {
+//   "registry.example.com": { "username": "deploy", "password": "..." },
+//   "ghcr.io": { "username": "deploy", "passwordEnv": "GHCR_TOKEN" },
+//   "123456789.dkr.ecr.eu-central-1.amazonaws.com": { "credentialHelper": "ecr-login" },
+//   "docker.io": { "anonymous": true },
+//   "tenants": {
+//     "tenant1": { "registry.example.com": { "username": "tenant1", "password": "..." } }
+//   }
+// }
+//
+// credentials below tenants replace the shared ones of the same registry for that tenant
+
+const REGISTRY_AUTH_OVERRIDES_PATH = process.env.REGISTRY_AUTH_OVERRIDES_PATH || '/run/secrets/registry_auth_overrides';
+const REGISTRY_AUTH_WATCH_INTERVAL_MS = parseInt(process.env.REGISTRY_AUTH_WATCH_INTERVAL_MS || '5000');
+const CREDENTIAL_HELPER_TIMEOUT_MS = 10000;
+
+// reserved key of the file holding the per tenant credentials
+const TENANTS_KEY = 'tenants';
+
+// credentials as sent to docker in X-Registry-Auth
+export type RegistryAuth = {
+    anonymous?: boolean,
+    username?: string,
+    password?: string,
+    email?: string,
+    serveraddress?: string,
+    identitytoken?: string
+}
+
+type CredentialSource = RegistryAuth & {
+    // read the username/password from environment variables
+    usernameEnv?: string,
+    passwordEnv?: string,
+    // docker-credential-<name> following the docker-credential-helpers protocol
+    credentialHelper?: string
+}
+
+type CredentialSources = {
+    [registry: string]: CredentialSource
+}
+
+type RegistryAuthConfig = {
+    shared: CredentialSources,
+    tenants: { [tenant: string]: CredentialSources }
+}
+
+const STRING_FIELDS = ['username', 'password', 'email', 'serveraddress', 'identitytoken', 'usernameEnv', 'passwordEnv', 'credentialHelper'];
+
+function validateCredentialSource(raw: unknown, path: string): CredentialSource {
+    if (!isPlainObject(raw)) {
+        throw new Error(`${path} must be an object.`);
+    }
+    for (const [key, value] of Object.entries(raw)) {
+        if (key === 'anonymous') {
+            if (typeof value !== 'boolean') {
+                throw new Error(`${path}.anonymous must be a boolean.`);
+            }
+        } else if (STRING_FIELDS.includes(key)) {
+            if (typeof value !== 'string') {
+                throw new Error(`${path}.${key} must be a string.`);
+            }
+        } else {
+            throw new Error(`${path}.${key} is not a known setting.`);
+        }
+    }
+
+    const source = raw as CredentialSource;
+    const kinds = [
+        source.anonymous,
+        source.password !== undefined || source.identitytoken !== undefined,
+        source.passwordEnv !== undefined,
+        source.credentialHelper !== undefined
+    ].filter(kind => kind);
+    if (kinds.length !== 1) {
+        throw new Error(`${path} needs exactly one of anonymous, password/identitytoken, passwordEnv or credentialHelper.`);
+    }
+    if (source.credentialHelper !== undefined && !/^[a-zA-Z0-9_.-]+$/.test(source.credentialHelper)) {
+        throw new Error(`${path}.credentialHelper must be the name of a docker-credential-<name> helper.`);
+    }
+    for (const envField of ['usernameEnv', 'passwordEnv'] as const) {
+        const name = source[envField];
+        if (name !== undefined && process.env[name] === undefined) {
+            throw new Error(`${path}.${envField} refers to ${name}, which is not set.`);
+        }
+    }
+    return source;
+}
+
+function validateCredentialSources(raw: unknown, path: string): CredentialSources {
+    if (!isPlainObject(raw)) {
+        throw new Error(`${path} must be an object.`);
+    }
+    const sources: CredentialSources = {};
+    for (const [registry, source] of Object.entries(raw)) {
+        sources[registry] = validateCredentialSource(source, path ? `${path}.${registry}` : registry);
+    }
+    return sources;
+}
+
+export function parseRegistryAuthConfig(contents: string): RegistryAuthConfig {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(contents);
+    } catch (error: any) {
+        throw new Error(`invalid JSON: ${error.message}`);
+    }
+    if (!isPlainObject(raw)) {
+        throw new Error('registry auth overrides must be an object.');
+    }
+    const { [TENANTS_KEY]: rawTenants, ...rawShared } = raw;
+    const tenants: { [tenant: string]: CredentialSources } = {};
+    if (rawTenants !== undefined) {
+        if (!isPlainObject(rawTenants)) {
+            throw new Error(`${TENANTS_KEY} must be an object.`);
+        }
+        for (const [tenant, sources] of Object.entries(rawTenants)) {
+            tenants[tenant] = validateCredentialSources(sources, `${TENANTS_KEY}.${tenant}`);
+        }
+    }
+    return {
+        shared: validateCredentialSources(rawShared, ''),
+        tenants: tenants
+    };
+}
+
+// credential providers
+
+function runCredentialHelper(helper: string, registry: string): Promise<RegistryAuth> {
+    return new Promise((resolve, reject) => {
+        const child = execFile(`docker-credential-${helper}`, ['get'], { timeout: CREDENTIAL_HELPER_TIMEOUT_MS }, (error, stdout) => {
+            if (error) {
+                reject(new Error(`docker-credential-${helper} failed for ${registry}: ${stdout.trim() || error.message}`));
+                return;
+            }
+            try {
+                const credentials: { Username: string, Secret: string, ServerURL?: string } = JSON.parse(stdout);
+                // helpers return <token> as username for identity tokens
+                if (credentials.Username === '<token>') {
+                    resolve({ identitytoken: credentials.Secret, serveraddress: credentials.ServerURL || registry });
+                } else {
+                    resolve({ username: credentials.Username, password: credentials.Secret, serveraddress: credentials.ServerURL || registry });
+                }
+            } catch (parseError: any) {
+                reject(new Error(`docker-credential-${helper} returned invalid credentials for ${registry}.`));
+            }
+        });
+        child.stdin?.end(registry);
+    });
+}
+
+async function resolveCredentialSource(source: CredentialSource, registry: string): Promise<RegistryAuth> {
+    if (source.credentialHelper) {
+        return runCredentialHelper(source.credentialHelper, registry);
+    }
+    const { usernameEnv, passwordEnv, credentialHelper, ...auth } = source;
+    if (usernameEnv) {
+        auth.username = process.env[usernameEnv];
+    }
+    if (passwordEnv) {
+        auth.password = process.env[passwordEnv];
+    }
+    return { serveraddress: registry, ...auth };
+}
+
+// state
+
+let currentConfig: RegistryAuthConfig = { shared: {}, tenants: {} };
+
+// resolves the credentials of a tenant for a registry, undefined if none are configured
+export async function getRegistryAuth(tenant: string, registry: string): Promise<RegistryAuth | undefined> {
+    const source = currentConfig.tenants[tenant]?.[registry] || currentConfig.shared[registry];
+    if (!source) {
+        return undefined;
+    }
+    return resolveCredentialSource(source, registry);
+}
+
+// decodes the X-Registry-Auth header a client sent
+export function decodeRegistryAuthHeader(header: string | undefined): RegistryAuth | undefined {
+    if (!header) {
+        return undefined;
+    }
+    try {
+        const decoded = JSON.parse(Buffer.from(header, 'base64').toString('utf8'));
+        if (!isPlainObject(decoded)) {
+            return undefined;
+        }
+        return {
+            username: typeof decoded.username === 'string' ? decoded.username : undefined,
+            password: typeof decoded.password === 'string' ? decoded.password : undefined,
+            email: typeof decoded.email === 'string' ? decoded.email : undefined,
+            serveraddress: typeof decoded.serveraddress === 'string' ? decoded.serveraddress : undefined,
+            identitytoken: typeof decoded.identitytoken === 'string' ? decoded.identitytoken : undefined,
+        };
+    } catch (error) {
+        return undefined;
+    }
+}
+
+// authconfig as expected by docker, without our own markers.
+// dockerode passes it on as is, so identity tokens work as well
+export function toAuthConfig(auth: RegistryAuth): Docker.AuthConfig {
+    const { anonymous, ...authConfig } = auth;
+    return authConfig as Docker.AuthConfig;
+}
+
+export function encodeRegistryAuthHeader(auth: RegistryAuth): string {
+    return Buffer.from(JSON.stringify(toAuthConfig(auth))).toString('base64url');
+}
+
+const registryAuthFile = createReloadableFile({
+    description: 'registry auth overrides',
+    path: REGISTRY_AUTH_OVERRIDES_PATH,
+    watchIntervalMs: REGISTRY_AUTH_WATCH_INTERVAL_MS,
+    apply: contents => {
+        currentConfig = parseRegistryAuthConfig(contents);
+    },
+    applyMissing: () => {
+        currentConfig = { shared: {}, tenants: {} };
+    }
+});
+
+// loads the credentials file if it exists. Throws if it is invalid.
+export const loadRegistryAuth = registryAuthFile.load;
+// reloads the credentials, keeping the last good ones if the file is invalid
+export const reloadRegistryAuth = registryAuthFile.reload;
+export const watchRegistryAuth = registryAuthFile.watch;
@@ -0,0 +1,73 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createReloadableFile } from './reloadableFile';
+
+describe('reloadable file', () => {
+    let directory: string;
+    let applied: string | undefined;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'swarmgate-'));
+        applied = undefined;
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    function createFile(filePath: string) {
+        return createReloadableFile({
+            description: 'test file',
+            path: filePath,
+            watchIntervalMs: 1000,
+            apply: contents => {
+                if (contents === 'invalid') {
+                    throw new Error('contents are invalid.');
+                }
+                applied = contents;
+            },
+            applyMissing: () => {
+                applied = 'missing';
+            }
+        });
+    }
+
+    it('should apply the contents or the missing state on load', () => {
+        const filePath = path.join(directory, 'file');
+        createFile(filePath).load();
+        expect(applied).toBe('missing');
+
+        fs.writeFileSync(filePath, 'first');
+        createFile(filePath).load();
+        expect(applied).toBe('first');
+    });
+
+    it('should throw on load if the file is invalid', () => {
+        const filePath = path.join(directory, 'file');
+        fs.writeFileSync(filePath, 'invalid');
+        expect(() => createFile(filePath).load()).toThrow(`Invalid test file ${filePath}: contents are invalid.`);
+    });
+
+    it('should keep the last good contents on reload', () => {
+        const filePath = path.join(directory, 'file');
+        fs.writeFileSync(filePath, 'first');
+        const file = createFile(filePath);
+        file.load();
+
+        fs.writeFileSync(filePath, 'invalid');
+        file.reload();
+        expect(applied).toBe('first');
+
+        fs.rmSync(filePath);
+        file.reload();
+        expect(applied).toBe('first');
+
+        fs.writeFileSync(filePath, 'second');
+        file.reload();
+        expect(applied).toBe('second');
+    });
+});
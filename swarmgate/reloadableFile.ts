@@ -0,0 +1,72 @@
+import fs from 'fs';
+
+// a configuration file that is loaded on startup and reloaded on change or SIGHUP.
+// A file that becomes invalid or disappears keeps the last good contents in use
+
+type ReloadableFileOptions = {
+    // e.g. policy, used in log and error messages
+    description: string,
+    path: string,
+    watchIntervalMs: number,
+    // parses and applies the contents. Throws if they are invalid
+    apply: (contents: string) => void,
+    // called on load if the file does not exist
+    applyMissing: () => void
+}
+
+export type ReloadableFile = {
+    // loads the file if it exists. Throws if it is invalid.
+    load: () => void,
+    reload: () => void,
+    watch: () => void
+}
+
+export function createReloadableFile(options: ReloadableFileOptions): ReloadableFile {
+    const { description, path } = options;
+
+    function load() {
+        if (!fs.existsSync(path)) {
+            console.log(`No ${description} found at ${path}`);
+            options.applyMissing();
+            return;
+        }
+        console.log(`Loading ${description} from ${path}`);
+        const contents = fs.readFileSync(path, 'utf8');
+        try {
+            options.apply(contents);
+        } catch (error: any) {
+            throw new Error(`Invalid ${description} ${path}: ${error.message}`);
+        }
+    }
+
+    function reload() {
+        try {
+            if (!fs.existsSync(path)) {
+                console.error(`The ${description} ${path} disappeared, keeping the last good one`);
+                return;
+            }
+            load();
+            console.log(`Reloaded ${description} from ${path}`);
+        } catch (error: any) {
+            console.error(`Failed to reload ${description}, keeping the last good one. ${error.message}`);
+        }
+    }
+
+    function watch() {
+        process.on('SIGHUP', () => {
+            console.log(`Got SIGHUP, reloading ${description}`);
+            reload();
+        });
+
+        // polling instead of fs.watch as swarm configs and secrets are
+        // usually replaced instead of modified in place
+        fs.watchFile(path, { interval: options.watchIntervalMs, persistent: false }, (current, previous) => {
+            if (current.mtimeMs === previous.mtimeMs && current.ino === previous.ino) {
+                return;
+            }
+            reload();
+        });
+    }
+
+    return { load, reload, watch };
+}
@@ -0,0 +1,90 @@
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { checkRole } from './roles';
+import { setupRoutes } from './routes';
+
+describe('roles', () => {
+    it('should include the roles below', () => {
+        expect(checkRole('admin', 'admin', 'DELETE', '/v1.43/volumes/data')).toBeUndefined();
+        expect(checkRole('admin', 'viewer', 'GET', '/v1.43/services')).toBeUndefined();
+        expect(checkRole('deployer', 'viewer', 'GET', '/v1.43/services')).toBeUndefined();
+    });
+
+    it('should name the missing role', () => {
+        expect(checkRole('viewer', 'deployer', 'POST', '/v1.43/services/create'))
+            .toBe('Access denied: Role deployer is required for POST /v1.43/services/create, the client has role viewer.');
+        expect(checkRole('deployer', 'admin', 'DELETE', '/v1.43/volumes/data'))
+            .toBe('Access denied: Role admin is required for DELETE /v1.43/volumes/data, the client has role deployer.');
+        expect(checkRole(undefined, 'viewer', 'GET', '/v1.43/services'))
+            .toBe('Access denied: Role viewer is required for GET /v1.43/services, the client has no role.');
+    });
+
+    describe('routes', () => {
+        let server: http.Server;
+        let port: number;
+
+        beforeAll(done => {
+            const app = express();
+            app.use(express.json());
+            app.use((req, res, next) => {
+                res.locals.role = req.header('x-role');
+                next();
+            });
+            app.use(setupRoutes('tenant1'));
+            server = app.listen(0, '127.0.0.1', () => {
+                port = (server.address() as AddressInfo).port;
+                done();
+            });
+        });
+
+        afterAll(done => {
+            server.close(done);
+        });
+
+        beforeEach(() => {
+            // denials are audited to stdout
+            jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        // the role the route requires, undefined if the role of the client was enough
+        function requiredRole(method: string, path: string, role: string): Promise<string | undefined> {
+            return new Promise((resolve, reject) => {
+                const req = http.request({ host: '127.0.0.1', port, method, path, headers: { 'x-role': role } }, res => {
+                    let body = '';
+                    res.on('data', chunk => body += chunk);
+                    res.on('end', () => resolve(body.match(/Role (\w+) is required/)?.[1]));
+                });
+                req.on('error', reject);
+                req.end();
+            });
+        }
+
+        it('should let viewers read and validate specs', async () => {
+            expect(await requiredRole('POST', '/v1.43/services/create', 'viewer')).toBe('deployer');
+            expect(await requiredRole('POST', '/swarmgate/v1/validate/volume', 'viewer')).toBeUndefined();
+        });
+
+        it('should let deployers deploy and remove stacks', async () => {
+            expect(await requiredRole('DELETE', '/v1.43/networks/tenant1_default', 'viewer')).toBe('deployer');
+            expect(await requiredRole('POST', '/v1.43/secrets/create', 'viewer')).toBe('deployer');
+            expect(await requiredRole('POST', '/v1.43/volumes/create', 'viewer')).toBe('deployer');
+        });
+
+        it('should only let admins delete volumes and secrets', async () => {
+            expect(await requiredRole('DELETE', '/v1.43/volumes/data', 'deployer')).toBe('admin');
+            expect(await requiredRole('DELETE', '/secrets/abc', 'deployer')).toBe('admin');
+        });
+
+        it('should decide by the matched route, not by the spelling of the path', async () => {
+            expect(await requiredRole('DELETE', '/foo/volumes/data', 'deployer')).toBe('admin');
+            expect(await requiredRole('DELETE', '/v1.43/Volumes/data', 'deployer')).toBe('admin');
+            expect(await requiredRole('DELETE', '/V1.43/SECRETS/abc', 'deployer')).toBe('admin');
+            expect(await requiredRole('POST', '/SWARMGATE/V1/VALIDATE/service', 'viewer')).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,123 @@
+import express from 'express';
+import fs from 'fs';
+import { sendError } from './errors';
+import { getCertificateIdentities, getClientCertificate, KNOWN_IDENTITY_FIELDS } from './tenants';
+
+// what a client may do within its tenant. Each role includes the ones before it:
+// viewers may only read, deployers may deploy and remove stacks, admins may do everything
+export const ROLES = ['viewer', 'deployer', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+// which field of the verified client certificate is mapped to a role.
+// Without a role mapping file, the values of the field are the role names, e.g. OU=deployer
+const ROLE_IDENTITY_FIELD = process.env.ROLE_IDENTITY_FIELD;
+
+const ROLE_MAPPING_PATH = process.env.ROLE_MAPPING_PATH || '/run/secrets/role_mapping';
+
+type RoleMapping = {
+    [identity: string]: Role
+}
+
+// undefined if the client has no role
+export type RoleResolver = (req: express.Request) => Role | undefined;
+
+function isRole(value: any): value is Role {
+    return ROLES.includes(value);
+}
+
+function hasRole(role: Role, required: Role): boolean {
+    return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+// returns the reason the request is denied, naming the missing role
+export function checkRole(role: Role | undefined, required: Role, method: string, path: string): string | undefined {
+    if (role && hasRole(role, required)) {
+        return undefined;
+    }
+    const current = role ? `the client has role ${role}` : 'the client has no role';
+    return `Access denied: Role ${required} is required for ${method} ${path}, ${current}.`;
+}
+
+// guards a route, the role of the client is resolved before routing into res.locals.role.
+// Every route names its role: express matches paths case insensitively and /:version?
+// accepts any segment, so only the matched route knows what a request does
+export function requireRole(required: Role): express.RequestHandler {
+    return (req, res, next) => {
+        const denial = checkRole(res.locals.role, required, req.method, req.path);
+        if (denial) {
+            sendError(res, 403, denial);
+            return;
+        }
+        next();
+    };
+}
+
+function loadRoleMapping(path: string): RoleMapping {
+    const fileContents = fs.readFileSync(path, 'utf8');
+    const raw = JSON.parse(fileContents);
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error(`Role mapping in ${path} must be a JSON object mapping certificate identities to roles.`);
+    }
+    const mapping: RoleMapping = {};
+    for (const [identity, role] of Object.entries(raw)) {
+        if (!isRole(role)) {
+            throw new Error(`Role mapping in ${path} has an invalid role for identity ${identity}, expected one of ${ROLES.join(', ')}.`);
+        }
+        mapping[identity] = role;
+    }
+    return mapping;
+}
+
+// the most privileged role the identities map to
+function highestRole(roles: Role[]): Role | undefined {
+    let highest: Role | undefined = undefined;
+    for (const role of roles) {
+        if (!highest || hasRole(role, highest)) {
+            highest = role;
+        }
+    }
+    return highest;
+}
+
+// returns a function that works out the role of a request. Without a role
+// mapping file or ROLE_IDENTITY_FIELD every client is an admin, as before roles existed
+export function createRoleResolver(tlsDisabled: boolean): RoleResolver {
+    const identityField = ROLE_IDENTITY_FIELD || 'CN';
+    if (!KNOWN_IDENTITY_FIELDS.includes(identityField)) {
+        throw new Error(`ROLE_IDENTITY_FIELD must be one of ${KNOWN_IDENTITY_FIELDS.join(', ')}.`);
+    }
+
+    const hasMapping = fs.existsSync(ROLE_MAPPING_PATH);
+    if (!hasMapping && !ROLE_IDENTITY_FIELD) {
+        console.log(`No role mapping found at ${ROLE_MAPPING_PATH} and ROLE_IDENTITY_FIELD is not set, every client is an admin`);
+        return () => 'admin';
+    }
+
+    let mapping: RoleMapping | undefined = undefined;
+    if (hasMapping) {
+        console.log(`Loading role mapping from ${ROLE_MAPPING_PATH}, identifying clients by ${identityField}`);
+        mapping = loadRoleMapping(ROLE_MAPPING_PATH);
+    } else {
+        console.log(`Taking roles from the ${identityField} of client certificates`);
+    }
+
+    if (tlsDisabled) {
+        console.warn('WARNING: TLS is disabled, ignoring roles, every client is an admin');
+        return () => 'admin';
+    }
+
+    return (req: express.Request) => {
+        const cert = getClientCertificate(req);
+        if (!cert) {
+            return undefined;
+        }
+        const identities = getCertificateIdentities(cert, identityField);
+        if (mapping) {
+            const roleMapping = mapping;
+            return highestRole(identities
+                .filter(identity => Object.prototype.hasOwnProperty.call(roleMapping, identity))
+                .map(identity => roleMapping[identity]));
+        }
+        return highestRole(identities.filter(isRole));
+    };
+}
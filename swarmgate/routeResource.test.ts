@@ -0,0 +1,61 @@
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { getRouteResource, RouteResource } from './routeResource';
+
+describe('route resource', () => {
+    let server: http.Server;
+    let port: number;
+    let resource: RouteResource | undefined;
+
+    beforeAll(done => {
+        const app = express();
+        const router = express.Router();
+        const capture = (req: express.Request, res: express.Response) => {
+            resource = getRouteResource(req);
+            res.end();
+        };
+        router.delete('/:version?/volumes/:name', capture);
+        router.post('/:version?/services/create', capture);
+        router.post('/:version?/services/:id/update', capture);
+        router.get('/swarmgate/v1/quotas', capture);
+        app.use('/', router);
+        server = app.listen(0, '127.0.0.1', () => {
+            port = (server.address() as AddressInfo).port;
+            done();
+        });
+    });
+
+    afterAll(done => {
+        server.close(done);
+    });
+
+    function request(method: string, path: string): Promise<RouteResource | undefined> {
+        resource = undefined;
+        return new Promise((resolve, reject) => {
+            const req = http.request({ host: '127.0.0.1', port, method, path }, res => {
+                res.resume();
+                res.on('end', () => resolve(resource));
+            });
+            req.on('error', reject);
+            req.end();
+        });
+    }
+
+    it('should take the resource from the matched route', async () => {
+        expect(await request('DELETE', '/v1.43/volumes/data')).toEqual({ resourceType: 'volumes', resourceId: 'data', action: undefined });
+        expect(await request('POST', '/services/create')).toEqual({ resourceType: 'services', resourceId: undefined, action: 'create' });
+        expect(await request('POST', '/v1.43/services/abc/update')).toEqual({ resourceType: 'services', resourceId: 'abc', action: 'update' });
+        expect(await request('GET', '/swarmgate/v1/quotas')).toEqual({ resourceType: 'swarmgate', resourceId: undefined, action: 'v1' });
+    });
+
+    it('should not be fooled by unusual version segments or case', async () => {
+        expect(await request('DELETE', '/foo/volumes/data')).toMatchObject({ resourceType: 'volumes', resourceId: 'data' });
+        expect(await request('DELETE', '/v1.43/Volumes/data')).toMatchObject({ resourceType: 'volumes', resourceId: 'data' });
+        expect(await request('DELETE', '/V1.43/VOLUMES/data')).toMatchObject({ resourceType: 'volumes', resourceId: 'data' });
+    });
+
+    it('should have no resource if no route matched', async () => {
+        expect(await request('DELETE', '/v1.43/volumes')).toBeUndefined();
+    });
+});
@@ -0,0 +1,27 @@
+import express from 'express';
+
+// the docker resource a request was routed to. It is taken from the route that matched,
+// e.g. /:version?/volumes/:name, and never from the raw path: routes match case
+// insensitively and /:version? accepts any segment, so /foo/Volumes/x is a volume route
+
+export type RouteResource = {
+    // e.g. volumes
+    resourceType?: string,
+    // id or name from the path, e.g. data for DELETE /volumes/data
+    resourceId?: string,
+    // e.g. create, update or logs
+    action?: string
+}
+
+export function getRouteResource(req: express.Request): RouteResource {
+    const routePath = req.route?.path;
+    if (typeof routePath !== 'string') {
+        return {};
+    }
+    const segments = routePath.split('/').filter(segment => segment && !segment.startsWith(':'));
+    return {
+        resourceType: segments[0],
+        resourceId: req.params.id ?? req.params.name,
+        action: segments[1]
+    };
+}
@@ -1,86 +1,125 @@
 import express from 'express';
 import Docker from 'dockerode';
 import * as http from 'http';
-import fs from 'fs';
+import { BindMountRule, checkBindMount, checkLocalVolumeBind, parseBindMountRules } from './bindMounts';
+import { checkContainerPrivileges, ContainerSecuritySpec } from './privileges';
+import { getTenantPolicy, TenantPolicy } from './policy';
+import { audit } from './audit';
+import { InvalidFilterError, parseFilters, withFilter } from './filters';
+import { OwnershipIndex } from './ownershipIndex';
+import { createDockerClient, requestDocker } from './upstream';
+import { applyServiceDefaults } from './serviceDefaults';
+import { addServiceUsage, checkQuotas, emptyQuotaUsage, hasQuotas, isGlobalService, QuotaUsage } from './quotas';
+import { parseImageReference, tryParseImageReference, withDigest } from './imageReference';
+import { checkImagePolicy, ImagePolicyOptions } from './imagePolicy';
+import { allocateSubnet, applyNetworkPolicy, checkNetworkSpec, findOverlappingSubnet, NetworkSpec } from './networkPolicy';
+import { DEFAULT_INFO_FIELDS, DEFAULT_NODE_FIELDS, DEFAULT_VERSION_FIELDS, pickFields, reduceSharedNetwork } from './redaction';
+import { checkPlacementConstraints, matchesConstraints, NodeInfo, withNodeSelector } from './placement';
+import { decodeRegistryAuthHeader, encodeRegistryAuthHeader, getRegistryAuth, RegistryAuth, toAuthConfig } from './registryAuth';
+import { sendError, sendViolations, violation, Violation } from './errors';
+import { diffSpecs } from './specDiff';
+import { requireRole } from './roles';
+
+const docker = createDockerClient();
+
+// shared between all tenants, started by the app
+export const ownershipIndex = new OwnershipIndex(docker);
 
-const docker = new Docker({ socketPath: '/var/run/docker.sock' });
-
-// in production we should not allow the local volume driver if possible
-// as ownership checking does not really work for it
-const ALLOWED_REGULAR_VOLUME_DRIVERS = process.env.ALLOWED_REGULAR_VOLUMES_DRIVERS?.split(',') || ['local'];
 const KNOWN_VOLUME_TYPES = ['bind', 'volume', 'tmpfs', 'npipe', 'cluster'];
-const ALLOWED_VOLUME_TYPES = process.env.ALLOWED_VOLUME_TYPES?.split(',') || ['bind', 'volume', 'tmpfs', 'npipe', 'cluster'];
-const ALLOW_PORT_EXPOSE = process.env.ALLOW_PORT_EXPOSE === '1' || process.env.ALLOW_PORT_EXPOSE === 'true';
-const SERVICE_ALLOW_LISTED_NETWORKS = process.env.SERVICE_ALLOW_LISTED_NETWORKS?.split(',') || [];
-const CHECK_VOLUME_OWNERSHIP_VIA_PREFIX = process.env.CHECK_VOLUME_OWNERSHIP_VIA_PREFIX === '1' || process.env.CHECK_VOLUME_OWNERSHIP_VIA_PREFIX === 'true';
 
 const tenantLabel = "com.github.neuroforgede.swarmgate.tenant";
 
-const ONLY_KNOWN_REGISTRIES = process.env.ONLY_KNOWN_REGISTRIES === '1' || process.env.ONLY_KNOWN_REGISTRIES === 'true';
+// minimum response time for hidden resources, so that lookups of resources of
+// other tenants and of missing ones take the same time
+const HIDDEN_RESOURCE_RESPONSE_TIME_MS = parseInt(process.env.HIDDEN_RESOURCE_RESPONSE_TIME_MS || '100');
 
-const REGISTRY_AUTH_OVERRIDES_PATH = process.env.REGISTRY_AUTH_OVERRIDES_PATH || '/run/secrets/registry_auth_overrides';
+type Serializer = <T>(run: () => Promise<T>) => Promise<T>;
 
-type RegistryAuth = {
-    anonymous?: boolean,
-    username?: string,
-    password?: string,
-    email?: string,
-    serveraddress?: string
+// runs the functions passed to it one after another
+function createSerializer(): Serializer {
+    let last: Promise<unknown> = Promise.resolve();
+    return run => {
+        const result = last.then(run, run);
+        last = result.catch(() => undefined);
+        return result;
+    };
 }
 
-type RegistryAuthPerDockerRegistry = {
-    [registry: string]: RegistryAuth
+// network creation is serialized so that two requests are never handed the same subnet
+const serializeNetworkCreation = createSerializer();
+
+function proxyRequestToDocker(req: express.Request, res: express.Response) {
+    const options = {
+        path: req.url,
+        method: req.method,
+        headers: req.headers,
+    };
+
+    // Create a request to the docker engine
+    const proxyReq = requestDocker(options, (proxyRes) => {
+        // Pipe the response from the docker engine back to the original response
+        res.writeHead(proxyRes.statusCode || 500, proxyRes.headers);
+        proxyRes.pipe(res);
+    });
+
+    // Pipe the original request body to the docker engine
+    req.pipe(proxyReq);
+
+    // Handle errors in the request to the docker engine
+    proxyReq.on('error', (err) => {
+        console.error('Error connecting to docker:', err);
+        if (res.headersSent) {
+            res.end();
+            return;
+        }
+        sendError(res, 500, 'Internal server error');
+    });
 }
 
-const registryAuthOverrides: RegistryAuthPerDockerRegistry = {};
-try {
-    // if the file does not exist, we will just ignore it
-    const overrideExists = fs.existsSync(REGISTRY_AUTH_OVERRIDES_PATH);
-    if (overrideExists) {
-        console.log(`Loading registry auth overrides from ${REGISTRY_AUTH_OVERRIDES_PATH}`);
-        const fileContents = fs.readFileSync(REGISTRY_AUTH_OVERRIDES_PATH, 'utf8');
-        const registryAuthOverridesRaw: RegistryAuthPerDockerRegistry = JSON.parse(fileContents);
-        for (const [registry, auth] of Object.entries(registryAuthOverridesRaw)) {
-            registryAuthOverrides[registry] = auth;
-        }
-    } else {
-        console.log(`No registry auth overrides file not found at ${REGISTRY_AUTH_OVERRIDES_PATH}`);
+function stripAuthInfo(req: express.Request) {
+    if (req.get('x-registry-config')) {
+        for (const header in req.headers) {
+            if (header.toLowerCase() === 'x-registry-config') {
+                delete req.headers[header];
+            }
+        }
     }
-} catch (error: any) {
-    console.error(`Failed to load registry auth overrides: ${error.message}`);
-}
 
-function getRegistryFromDockerImage(image: string): string {
-    const parts = image.split('/');
-    if (parts.length < 2) {
-        return '';
+    if (req.get('x-registry-auth')) {
+        // strip any extra auth information
+        for (const header in req.headers) {
+            if (header.toLowerCase() === 'x-registry-auth') {
+                delete req.headers[header];
+            }
+        }
     }
-    return parts[0];
 }
 
-function getAuthForRegistry(registry: string): RegistryAuth | undefined {
-    return registryAuthOverrides[registry];
+function proxyRequestToDockerWithStrippedAuthInfo(req: express.Request, res: express.Response) {
+    stripAuthInfo(req);
+    proxyRequestToDocker(req, res);
 }
 
-function getAuthForDockerImage(image: string): {
-    auth: RegistryAuth | undefined,
-    registry: string
-} {
-    let registry = getRegistryFromDockerImage(image);
-    if (!registry) {
-        registry = 'docker.io';
-    }
-    const auth = getAuthForRegistry(registry);
-    return {
-        auth: auth,
-        registry: registry
-    };
+// docker clients and the healthcheck ping before anything else, this works
+// for every client with a valid certificate, even if it maps to no tenant
+export function setupPingRoutes() {
+    const router = express.Router();
+    router.head('/_ping', proxyRequestToDockerWithStrippedAuthInfo);
+    router.get('/_ping', proxyRequestToDockerWithStrippedAuthInfo);
+    return router;
 }
 
-
 export function setupRoutes(tenantLabelValue: string) {
     const router = express.Router();
 
+    // looked up on every use so that policy reloads take effect immediately
+    function policy(): TenantPolicy {
+        return getTenantPolicy(tenantLabelValue);
+    }
+
+    // filter for the docker list endpoints that only matches objects of this tenant
+    const tenantFilter = `${tenantLabel}=${tenantLabelValue}`;
+
     function isResourceNameAllowed(name: string): boolean {
         if (name.startsWith(tenantLabelValue + '_')) {
             return true;
@@ -88,101 +127,96 @@ export function setupRoutes(tenantLabelValue: string) {
         return false;
     }
 
+    // kind as used in messages, e.g. Service
+    function checkResourceName(kind: string, name: string | undefined): Violation[] {
+        if (!name) {
+            return [violation('name', `${kind} name is required.`, 400)];
+        }
+        if (!isResourceNameAllowed(name)) {
+            return [violation('name', `${kind} name ${name} is not allowed.`, 400)];
+        }
+        return [];
+    }
+
     function isKnownMountType(volumeType: string): boolean {
         return KNOWN_VOLUME_TYPES.includes(volumeType);
     }
 
     function isMountTypeAllowed(volumeType: string): boolean {
-        return ALLOWED_VOLUME_TYPES.includes(volumeType);
+        return policy().allowedVolumeTypes.includes(volumeType);
     }
 
     function isVolumeDriverAllowed(volumeDriver: string): boolean {
-        return ALLOWED_REGULAR_VOLUME_DRIVERS.includes(volumeDriver);
+        return policy().allowedRegularVolumeDrivers.includes(volumeDriver);
     }
 
-    function proxyRequestToDocker(req: express.Request, res: express.Response) {
+    // proxies a GET request and lets rewrite modify successful JSON responses
+    function proxyJsonFromDocker(req: express.Request, res: express.Response, rewrite: (body: any) => any | Promise<any>) {
+        stripAuthInfo(req);
         const options = {
-            socketPath: '/var/run/docker.sock',
             path: req.url,
-            method: req.method,
+            method: 'GET',
             headers: req.headers,
         };
 
-        // Create a request to the Unix socket
-        const proxyReq = http.request(options, (proxyRes) => {
-            // Pipe the response from the Unix socket back to the original response
-            res.writeHead(proxyRes.statusCode || 500, proxyRes.headers);
-            proxyRes.pipe(res);
+        const proxyReq = requestDocker(options, (proxyRes) => {
+            let data = '';
+            proxyRes.on('data', (chunk) => {
+                data += chunk;
+            });
+            proxyRes.on('end', async () => {
+                if (proxyRes.statusCode !== 200) {
+                    res.writeHead(proxyRes.statusCode || 500, proxyRes.headers);
+                    res.end(data);
+                    return;
+                }
+                try {
+                    res.json(await rewrite(JSON.parse(data)));
+                } catch (error: any) {
+                    console.error(error);
+                    sendError(res, 500, error.message);
+                }
+            });
         });
 
-        // Pipe the original request body to the Unix socket
-        req.pipe(proxyReq);
-
-        // Handle errors in the request to the Unix socket
         proxyReq.on('error', (err) => {
-            console.error('Error connecting to Unix socket:', err);
-            res.writeHead(500);
-            res.end('Internal server error');
-        });
-    }
-
-    function stripAuthInfo(req: express.Request) {
-        if (req.get('x-registry-config')) {
-            for (const header in req.headers) {
-                if (header.toLowerCase() === 'x-registry-config') {
-                    delete req.headers[header];
-                }
-            }
-        }
-
-        if (req.get('x-registry-auth')) {
-            // strip any extra auth information
-            for (const header in req.headers) {
-                if (header.toLowerCase() === 'x-registry-auth') {
-                    delete req.headers[header];
-                }
+            console.error('Error connecting to docker:', err);
+            if (res.headersSent) {
+                res.end();
+                return;
             }
-        }
-    }
-
-    function proxyRequestToDockerWithStrippedAuthInfo(req: express.Request, res: express.Response) {
-        stripAuthInfo(req);
-        proxyRequestToDocker(req, res);       
+            sendError(res, 500, 'Internal server error');
+        });
+        proxyReq.end();
     }
 
-
     function checkPermissionsOnDockerImage(image: string, registryAuth?: RegistryAuth): Promise<{
         success: boolean,
-        errorMessage?: string
+        errorMessage?: string,
+        // manifest digest the image currently resolves to
+        digest?: string
     }> {
         const headers: { [header: string]: string | string[] } = {};
-        if (registryAuth) {
-            // make base auth header by using the username and password and base64 encoding them
-            // like with basic auth
-            headers['x-registry-auth'] = Buffer.from(JSON.stringify({
-                username: registryAuth.username!,
-                password: registryAuth.password!,
-                serveraddress: registryAuth.serveraddress!,
-                email: registryAuth.email,
-            })).toString("base64url");
+        if (registryAuth && !registryAuth.anonymous) {
+            headers['x-registry-auth'] = encodeRegistryAuthHeader(registryAuth);
         }
 
         const options = {
-            socketPath: '/var/run/docker.sock',
             path: `/distribution/${image}/json`,
             method: 'GET',
             headers: headers,
         };
 
         return new Promise((resolve, reject) => {
-            const proxyReq = http.request(options, (proxyRes: http.IncomingMessage) => {
+            const proxyReq = requestDocker(options, (proxyRes: http.IncomingMessage) => {
                 let data = '';
                 proxyRes.on('data', (chunk) => {
                     data += chunk;
                 });
                 proxyRes.on('end', () => {
                     if (proxyRes.statusCode === 200) {
-                        resolve({ success: true });
+                        const parsed: { Descriptor?: { digest?: string } } = JSON.parse(data);
+                        resolve({ success: true, digest: parsed.Descriptor?.digest });
                     } else {
                         const parsed: { message: string } = JSON.parse(data);
                         resolve({ success: false, errorMessage: parsed.message });
@@ -191,7 +225,7 @@ export function setupRoutes(tenantLabelValue: string) {
             });
 
             proxyReq.on('error', (err) => {
-                console.error('Error connecting to Unix socket:', err);
+                console.error('Error connecting to docker:', err);
                 resolve({
                     success: false,
                     errorMessage: 'Failed to check permissions on Docker image.'
@@ -202,43 +236,151 @@ export function setupRoutes(tenantLabelValue: string) {
         });
     }
 
-    // app.use(audit());
+    // credentials for the registry of the image. Tenants bring their own
+    // X-Registry-Auth for the registries the policy allows them to
+    async function getAuthForDockerImage(req: express.Request, image: string): Promise<{
+        auth: RegistryAuth | undefined,
+        registry: string
+    }> {
+        const registry = parseImageReference(image).domain;
+        if (policy().tenantManagedRegistries.includes(registry)) {
+            const tenantAuth = decodeRegistryAuthHeader(req.get('x-registry-auth'));
+            if (tenantAuth) {
+                return { auth: tenantAuth, registry: registry };
+            }
+        }
+        return {
+            auth: await getRegistryAuth(tenantLabelValue, registry),
+            registry: registry
+        };
+    }
+
+    // checks the image reference against the tenant's image policy
+    function checkImageReference(image: string, options: ImagePolicyOptions): Violation[] {
+        const imageReference = tryParseImageReference(image);
+        if (!imageReference) {
+            return [violation('image.reference', `invalid reference format: ${image}`, 400)];
+        }
+        return checkImagePolicy(imageReference, policy().imagePolicy, options).map(message => violation('image.policy', message));
+    }
+
+    type ImageAccess = {
+        violations: Violation[],
+        auth: RegistryAuth | undefined,
+        digest?: string
+    }
+
+    // checks that the image can be pulled with the credentials the gateway would use.
+    // Returns those credentials and the digest the image resolved to
+    async function checkImageAccess(req: express.Request, image: string): Promise<ImageAccess> {
+        const registryAuth = await getAuthForDockerImage(req, image);
+        if (policy().onlyKnownRegistries && !registryAuth.auth) {
+            return { violations: [violation('image.registry', 'Access denied: Only known registries are allowed.')], auth: undefined };
+        }
+
+        const permissionCheckResult = await checkPermissionsOnDockerImage(image, registryAuth.auth);
+        if (!permissionCheckResult.success) {
+            return { violations: [violation('image.permission', `Permission check failed, Error: ${permissionCheckResult.errorMessage}`)], auth: registryAuth.auth };
+        }
+        return { violations: [], auth: registryAuth.auth, digest: permissionCheckResult.digest };
+    }
+
+    // pins the image to the digest that passed the permission check,
+    // so that later pushes to the tag do not change what the service runs
+    function pinImage(containerSpec: { Image: string }, digest: string | undefined): Violation[] {
+        if (!policy().pinImageDigests) {
+            return [];
+        }
+        if (!digest) {
+            return [violation('image.digest', `Failed to resolve the digest of image ${containerSpec.Image}.`, 500)];
+        }
+        containerSpec.Image = withDigest(containerSpec.Image, digest);
+        return [];
+    }
+
+    // answers requests for resources the tenant does not own. With hideUnownedResources
+    // they look exactly like resources that don't exist, including the response time
+    function denyUnowned(res: express.Response, kind: string, id: string, status: number, message: string) {
+        if (!policy().hideUnownedResources) {
+            sendError(res, status, message);
+            return;
+        }
+        const delay = Math.max(0, HIDDEN_RESOURCE_RESPONSE_TIME_MS - (Date.now() - res.locals.receivedAt));
+        setTimeout(() => sendError(res, 404, `No such ${kind}: ${id}`), delay);
+    }
+
+    router.use((req, res, next) => {
+        res.locals.receivedAt = Date.now();
+        next();
+    });
+
+    router.use(audit(tenantLabelValue));
 
     // basic plumbing, no need to check for ownership
     // also, these don't change the state of the system
     // as they are only GETs
-    router.head('/_ping', proxyRequestToDockerWithStrippedAuthInfo);
-    router.get('/_ping', proxyRequestToDockerWithStrippedAuthInfo);
-    router.get('/:version?/version', proxyRequestToDockerWithStrippedAuthInfo);
-    router.get('/:version?/nodes', proxyRequestToDockerWithStrippedAuthInfo);
-    router.get('/:version?/nodes/:id', proxyRequestToDockerWithStrippedAuthInfo);
-    router.get('/:version?/info', proxyRequestToDockerWithStrippedAuthInfo);
+    router.get('/:version?/version', requireRole('viewer'), (req, res) => {
+        proxyJsonFromDocker(req, res, (version: any) => pickFields(version, policy().exposedFields.version || DEFAULT_VERSION_FIELDS));
+    });
+    router.get('/:version?/nodes', requireRole('viewer'), (req, res) => {
+        const nodeSelector = policy().nodeSelector;
+        const nodeFields = policy().exposedFields.node || DEFAULT_NODE_FIELDS;
+        proxyJsonFromDocker(req, res, (nodes: NodeInfo[]) => nodes
+            .filter(node => matchesConstraints(node, nodeSelector))
+            .map(node => pickFields(node, nodeFields)));
+    });
+    router.get('/:version?/nodes/:id', requireRole('viewer'), (req, res) => {
+        const nodeSelector = policy().nodeSelector;
+        proxyJsonFromDocker(req, res, (node: NodeInfo) => {
+            if (!matchesConstraints(node, nodeSelector)) {
+                res.status(404);
+                return { message: `node ${req.params.id} not found` };
+            }
+            return pickFields(node, policy().exposedFields.node || DEFAULT_NODE_FIELDS);
+        });
+    });
+    router.get('/:version?/info', requireRole('viewer'), (req, res) => {
+        proxyJsonFromDocker(req, res, async (info: any) => {
+            // containers of other tenants are not counted. Only the containers on
+            // the node the proxy talks to are known, just like with plain docker info
+            const containers = await docker.listContainers({ all: true, filters: { label: [tenantFilter] } });
+            return pickFields({
+                ...info,
+                Containers: containers.length,
+                ContainersRunning: containers.filter(container => container.State === 'running').length,
+                ContainersPaused: containers.filter(container => container.State === 'paused').length,
+                ContainersStopped: containers.filter(container => container.State !== 'running' && container.State !== 'paused').length,
+            }, policy().exposedFields.info || DEFAULT_INFO_FIELDS);
+        });
+    });
 
     // make image resolution work
-    router.get('/:version?/distribution/:name(*)/json', async (req: express.Request, res: express.Response) => {
+    router.get('/:version?/distribution/:name(*)/json', requireRole('viewer'), async (req: express.Request, res: express.Response) => {
         console.log("distribution json for image", req.params.name);
 
-        stripAuthInfo(req);
+        const referenceViolations = checkImageReference(req.params.name, { checkDigest: false });
+        if (referenceViolations.length > 0) {
+            sendViolations(res, referenceViolations);
+            return;
+        }
 
-        const registryAuth = getAuthForDockerImage(req.params.name);
-        if (ONLY_KNOWN_REGISTRIES && !registryAuth.auth) {
-            res.status(403).send('Access denied: Only known registries are allowed.');
+        let imageAccess: ImageAccess;
+        try {
+            imageAccess = await checkImageAccess(req, req.params.name);
+        } catch (error: any) {
+            console.error(error);
+            sendError(res, 500, `Failed to get credentials for registry: ${error.message}`);
             return;
         }
-        
-        const permissionCheckResult = await checkPermissionsOnDockerImage(req.params.name, registryAuth.auth);
-        if (!permissionCheckResult.success) {
-            res.status(403).send("Permission check failed, Error: " + permissionCheckResult.errorMessage);
+        stripAuthInfo(req);
+
+        if (imageAccess.violations.length > 0) {
+            sendViolations(res, imageAccess.violations);
             return;
         }
 
-        if(registryAuth.auth && !registryAuth.auth.anonymous) {
-            req.headers['x-registry-auth'] = Buffer.from(JSON.stringify({
-                username: registryAuth.auth.username!,
-                password: registryAuth.auth.password!,
-                serveraddress: registryAuth.auth.serveraddress!,
-                email: registryAuth.auth.email,
-            })).toString("base64url");
+        if(imageAccess.auth && !imageAccess.auth.anonymous) {
+            req.headers['x-registry-auth'] = encodeRegistryAuthHeader(imageAccess.auth);
         }
 
         proxyRequestToDocker(req, res);
@@ -256,61 +398,71 @@ export function setupRoutes(tenantLabelValue: string) {
 
     async function isOwnedService(serviceId: string): Promise<boolean> {
         try {
-            const service = await docker.getService(serviceId).inspect();
+            const service = await ownershipIndex.inspect('service', serviceId);
             return service && isServiceOwned(service);
         } catch (error) {
             return false;
         }
     }
 
-    function doesVolumeExist(volumeName: string): Promise<boolean> {
-        return new Promise((resolve, reject) => {
-            docker.getVolume(volumeName).inspect((err, data) => {
-                if (err) {
-                    resolve(false);
-                } else {
-                    resolve(true);
-                }
-            });
-        });
+    async function doesVolumeExist(volumeName: string): Promise<boolean> {
+        try {
+            await ownershipIndex.inspect('volume', volumeName);
+            return true;
+        } catch (error) {
+            return false;
+        }
     }
 
-    async function isValidEndpointSpec(
-        res: express.Response,
-        endpointSpec: Docker.EndpointSpec): Promise<boolean> {
-        if (endpointSpec.Ports) {
-            for (const port of endpointSpec.Ports) {
-                if (!ALLOW_PORT_EXPOSE) {
-                    res.status(403).send(`Access denied: Exposing ports is not allowed.`);
-                    return false;
-                }
-            }
+    function bindMountRules(): BindMountRule[] {
+        return parseBindMountRules(policy().allowedBindMounts, tenantLabelValue);
+    }
+
+    // volumes of the local driver can bind mount host paths, those are checked like bind mounts
+    function checkLocalVolumeDriverOptions(driver: string | undefined, driverOptions: { [key: string]: string } | undefined): string | undefined {
+        if (driver && driver !== 'local') {
+            return undefined;
+        }
+        return checkLocalVolumeBind(driverOptions, bindMountRules());
+    }
+
+    function checkEndpointSpec(endpointSpec: Docker.EndpointSpec): Violation[] {
+        if (endpointSpec.Ports && endpointSpec.Ports.length > 0 && !policy().allowPortExpose) {
+            return [violation('ports', `Access denied: Exposing ports is not allowed.`)];
         }
-        return true;
+        return [];
     }
 
     type TaskTemplate = {
-        ContainerSpec?: {
+        ContainerSpec?: ContainerSecuritySpec & {
             Secrets?: { SecretName: string }[],
             Configs?: { ConfigName: string }[],
-            Mounts?: { Type: string, Source: string, VolumeOptions?: { Driver?: string, Labels?: { [key: string]: string } } }[],
+            Mounts?: {
+                Type: string,
+                Source: string,
+                VolumeOptions?: { DriverConfig?: { Name?: string, Options?: { [key: string]: string } }, Labels?: { [key: string]: string } }
+            }[],
             Labels?: { [key: string]: string },
             Image: string
         },
         Runtime?: string,
         Networks?: { Target: string }[],
+        Placement?: { Constraints?: string[] },
     }
-    // returns true if we should continue
-    async function isValidTaskTemplate(
-        res: express.Response,
-        taskTemplate: TaskTemplate): Promise<boolean> {
+
+    // collects every violation of the task template. Volumes are labeled
+    // and the node selector is added to the placement constraints
+    async function checkTaskTemplate(taskTemplate: TaskTemplate | undefined): Promise<Violation[]> {
+        const violations: Violation[] = [];
         const containerSpec = taskTemplate?.ContainerSpec;
         if (taskTemplate?.Runtime != 'plugin' && taskTemplate?.Runtime != 'attachment') {
             if (!containerSpec) {
-                res.status(400).send(`ContainerSpec is required in TaskTemplate.`);
-                return false;
+                violations.push(violation('containerSpec', `ContainerSpec is required in TaskTemplate.`, 400));
             }
         }
+        if (!taskTemplate) {
+            return violations;
+        }
 
         if (taskTemplate.Networks) {
             for (const network of taskTemplate.Networks) {
@@ -319,38 +471,45 @@ export function setupRoutes(tenantLabelValue: string) {
                     continue;
                 }
                 if (!await isOwnedNetwork(network.Target)) {
-                    res.status(403).send(`Access denied: Network ${network.Target} is not owned.`);
-                    return false;
+                    violations.push(violation('network.owned', `Access denied: Network ${network.Target} is not owned.`));
                 }
             }
         }
 
         if (containerSpec) {
+            for (const message of checkContainerPrivileges(containerSpec, policy().containerSecurityProfile)) {
+                violations.push(violation('privileges', message));
+            }
             if (containerSpec.Secrets) {
                 for (const secret of containerSpec.Secrets) {
                     if (!await isOwnedSecret(secret.SecretName)) {
-                        res.status(403).send(`Access denied: Secret ${secret.SecretName} is not owned.`);
-                        return false;
+                        violations.push(violation('secret.owned', `Access denied: Secret ${secret.SecretName} is not owned.`));
                     }
                 }
             }
             if (containerSpec.Configs) {
                 for (const config of containerSpec.Configs) {
                     if (!await isOwnedConfig(config.ConfigName)) {
-                        res.status(403).send(`Access denied: Config ${config.ConfigName} is not owned.`);
-                        return false;
+                        violations.push(violation('config.owned', `Access denied: Config ${config.ConfigName} is not owned.`));
                     }
                 }
             }
             if (Array.isArray(containerSpec.Mounts)) {
                 for (const mount of (taskTemplate as any).ContainerSpec.Mounts) {
                     if (!isKnownMountType(mount.Type)) {
-                        res.status(400).send(`Mount type ${mount.Type} is not supported.`);
-                        return false;
+                        violations.push(violation('mount.type', `Mount type ${mount.Type} is not supported.`, 400));
+                        continue;
                     }
                     if (!isMountTypeAllowed(mount.Type)) {
-                        res.status(400).send(`Mount type ${mount.Type} is not allowed.`);
-                        return false;
+                        violations.push(violation('mount.type', `Mount type ${mount.Type} is not allowed.`, 400));
+                        continue;
+                    }
+
+                    if (mount.Type == 'bind') {
+                        const bindMountError = checkBindMount(mount, bindMountRules());
+                        if (bindMountError) {
+                            violations.push(violation('mount.bind', bindMountError));
+                        }
                     }
 
                     // we can't enforce volume existance before we actually run this
@@ -364,11 +523,17 @@ export function setupRoutes(tenantLabelValue: string) {
                     // should be disabled in most cases.
                     // if this ever becomes a requirement for this proxy
                     // we will have to keep track of volumes in a database ourselves
+                    if (mount.Type == 'volume') {
+                        const localVolumeError = checkLocalVolumeDriverOptions(mount.VolumeOptions?.DriverConfig?.Name, mount.VolumeOptions?.DriverConfig?.Options);
+                        if (localVolumeError) {
+                            violations.push(violation('mount.bind', localVolumeError));
+                        }
+                    }
+
                     if (mount.Type == 'volume' || mount.Type == 'cluster') {
                         if (await doesVolumeExist(mount.Source)) {
                             if (!await isOwnedVolume(mount.Source)) {
-                                res.status(403).send(`Access denied: Volume ${mount.Source} is not owned.`);
-                                return false;
+                                violations.push(violation('volume.owned', `Access denied: Volume ${mount.Source} is not owned.`));
                             }
                         }
                         const volumeOptions = mount.VolumeOptions || {};
@@ -378,152 +543,179 @@ export function setupRoutes(tenantLabelValue: string) {
                 }
             }
         }
-        return true;
+
+        const nodeSelector = policy().nodeSelector;
+        if (nodeSelector.length > 0) {
+            const poolNodes = (await docker.listNodes()).filter(node => matchesConstraints(node as NodeInfo, nodeSelector));
+            for (const message of checkPlacementConstraints(taskTemplate.Placement?.Constraints || [], nodeSelector, poolNodes as NodeInfo[])) {
+                violations.push(violation('placement', message));
+            }
+            taskTemplate.Placement = { ...taskTemplate.Placement, Constraints: withNodeSelector(taskTemplate.Placement?.Constraints, nodeSelector) };
+        }
+        return violations;
     }
 
-    // Define the routes you want to expose
-    router.post('/:version?/services/create', async (req, res) => {
-        // Add ownership label to the service creation request
-        const serviceSpec: Docker.CreateServiceOptions = req.body;
-        try {
-            const taskTemplate: TaskTemplate = serviceSpec.TaskTemplate as any;
+    // rules of the task template that only run on a container spec, in the order they are checked
+    const CONTAINER_SPEC_RULES = ['privileges', 'secret.owned', 'config.owned', 'mount.type', 'mount.bind', 'volume.owned'];
+    const TASK_TEMPLATE_RULES = ['containerSpec', 'network.owned', ...CONTAINER_SPEC_RULES, 'placement'];
+    // each image rule only runs if the ones before it passed
+    const IMAGE_RULES = ['image.reference', 'image.policy', 'image.registry', 'image.permission', 'image.digest'];
+
+    type ServiceValidation = {
+        violations: Violation[],
+        // credentials to create the service with
+        auth: RegistryAuth | undefined,
+        // rules that were not evaluated, e.g. the image rules without an image
+        skippedRules: string[]
+    }
 
-            if (!serviceSpec.Name) {
-                res.status(400).send(`Service name is required.`);
-                return;
-            }
-            if (!isResourceNameAllowed(serviceSpec.Name)) {
-                res.status(400).send(`Service name ${serviceSpec.Name} is not allowed.`);
-                return;
+    // checks a service spec against every rule at once and applies the tenant's
+    // labels, service defaults, node selector and pinned image to it.
+    // On update the task template might be null in case of rollback
+    async function checkServiceSpec(req: express.Request, serviceSpec: any, replacesServiceId?: string): Promise<ServiceValidation> {
+        const violations: Violation[] = [];
+        const skippedRules: string[] = [];
+        const taskTemplate: TaskTemplate | undefined = serviceSpec.TaskTemplate || undefined;
+        const checksTaskTemplate = !!taskTemplate || !replacesServiceId;
+
+        if (!checksTaskTemplate) {
+            skippedRules.push(...TASK_TEMPLATE_RULES, 'quota');
+        } else {
+            violations.push(...await checkTaskTemplate(taskTemplate));
+            if (!taskTemplate) {
+                skippedRules.push(...TASK_TEMPLATE_RULES.filter(rule => rule !== 'containerSpec'));
+            } else if (!taskTemplate.ContainerSpec) {
+                skippedRules.push(...CONTAINER_SPEC_RULES);
             }
+        }
 
-            if (!await isValidTaskTemplate(res, taskTemplate)) {
-                return;
-            }
+        if (serviceSpec.EndpointSpec) {
+            violations.push(...checkEndpointSpec(serviceSpec.EndpointSpec));
+        }
 
-            if (serviceSpec.EndpointSpec && !await isValidEndpointSpec(res, serviceSpec.EndpointSpec)) {
-                return;
-            }
+        if (checksTaskTemplate) {
+            // fill in defaults before checking quotas, they might add resources
+            applyServiceDefaults(serviceSpec, policy().serviceDefaults);
+            violations.push(...await checkWithinQuotas({ service: serviceSpec, replacesServiceId: replacesServiceId }));
 
             serviceSpec.Labels = { ...serviceSpec.Labels, [tenantLabel]: tenantLabelValue };
-            if (taskTemplate.ContainerSpec) {
+            if (taskTemplate?.ContainerSpec) {
                 taskTemplate.ContainerSpec.Labels = { ...taskTemplate.ContainerSpec.Labels || {}, [tenantLabel]: tenantLabelValue };
             }
+        }
 
-            // TODO: verify privileges, capability-add and capability-drop
-            // TODO: setup default ulimits
+        const containerSpec = taskTemplate?.ContainerSpec;
+        if (!containerSpec?.Image) {
+            return { violations, auth: undefined, skippedRules: [...skippedRules, ...IMAGE_RULES] };
+        }
 
-            const registryAuth = getAuthForDockerImage(taskTemplate.ContainerSpec!.Image);
-            if (ONLY_KNOWN_REGISTRIES && !registryAuth.auth) {
-                res.status(403).send('Access denied: Only known registries are allowed.');
-                return;
-            }
+        const referenceViolations = checkImageReference(containerSpec.Image, { checkDigest: !policy().pinImageDigests });
+        violations.push(...referenceViolations);
+        if (referenceViolations.some(v => v.rule === 'image.reference')) {
+            return { violations, auth: undefined, skippedRules: [...skippedRules, ...imageRulesAfter('image.reference')] };
+        }
 
-            const permissionCheckResult = await checkPermissionsOnDockerImage(taskTemplate.ContainerSpec!.Image, registryAuth.auth);
-            if (!permissionCheckResult.success) {
-                res.status(403).send("Permission check failed, Error: " + permissionCheckResult.errorMessage);
-                return;
-            }
+        const imageAccess = await checkImageAccess(req, containerSpec.Image);
+        violations.push(...imageAccess.violations);
+        if (imageAccess.violations.length > 0) {
+            skippedRules.push(...imageRulesAfter(imageAccess.violations[0].rule));
+        } else {
+            violations.push(...pinImage(containerSpec, imageAccess.digest));
+        }
+        return { violations, auth: imageAccess.auth, skippedRules };
+    }
 
-            if (registryAuth.auth && !registryAuth.auth.anonymous) {
-                const service = await docker.createService({
-                    username: registryAuth.auth.username!,
-                    password: registryAuth.auth.password!,
-                    serveraddress: registryAuth.auth.serveraddress!,
-                    email: registryAuth.auth.email,
-                }, serviceSpec);
+    function imageRulesAfter(rule: string): string[] {
+        return IMAGE_RULES.slice(IMAGE_RULES.indexOf(rule) + 1);
+    }
+
+    async function checkServiceCreate(req: express.Request, serviceSpec: any, replacesServiceId?: string): Promise<ServiceValidation> {
+        const violations = checkResourceName('Service', serviceSpec.Name);
+        const validation = await checkServiceSpec(req, serviceSpec, replacesServiceId);
+        return { ...validation, violations: [...violations, ...validation.violations] };
+    }
+
+    // Define the routes you want to expose
+    router.post('/:version?/services/create', requireRole('deployer'), async (req, res) => {
+        // Add ownership label to the service creation request
+        const serviceSpec: Docker.CreateServiceOptions = req.body;
+        try {
+            await serializeQuotaChecked(async () => {
+                const validation = await checkServiceCreate(req, serviceSpec);
+                if (validation.violations.length > 0) {
+                    sendViolations(res, validation.violations);
+                    return;
+                }
+
+                if (validation.auth && !validation.auth.anonymous) {
+                    const service = await docker.createService(toAuthConfig(validation.auth), serviceSpec);
+                    res.status(201).json(service);
+                    return;
+                }
+                const service = await docker.createService(serviceSpec);
                 res.status(201).json(service);
-                return;
-            }
-            const service = await docker.createService(serviceSpec);
-            res.status(201).json(service);
+            });
         } catch (error: any) {
             console.error(error);
-            res.status(500).json({ message: error.message });
+            sendError(res, 500, error.message);
         }
     });
 
-    router.post('/:version?/services/:id/update', async (req, res) => {
+    router.post('/:version?/services/:id/update', requireRole('deployer'), async (req, res) => {
         const serviceId = req.params.id;
         const updateSpec = req.body;
 
         if (await isOwnedService(serviceId)) {
             try {
-                const taskTemplate: TaskTemplate = updateSpec.TaskTemplate as any;
-
-                // might be null in case of rollback
-                if (taskTemplate) {
-                    if (!await isValidTaskTemplate(res, taskTemplate)) {
+                await serializeQuotaChecked(async () => {
+                    const validation = await checkServiceSpec(req, updateSpec, serviceId);
+                    if (validation.violations.length > 0) {
+                        sendViolations(res, validation.violations);
                         return;
                     }
 
-                    updateSpec.Labels = { ...updateSpec.Labels, [tenantLabel]: tenantLabelValue };
-                    if (taskTemplate.ContainerSpec) {
-                        taskTemplate.ContainerSpec.Labels = { ...taskTemplate.ContainerSpec.Labels || {}, [tenantLabel]: tenantLabelValue };
-                    }
-                }
-
-                if (updateSpec.EndpointSpec && !await isValidEndpointSpec(res, updateSpec.EndpointSpec)) {
-                    return;
-                }
-
-                const service = docker.getService(serviceId);
+                    const service = docker.getService(serviceId);
 
-                updateSpec.version = req.query.version;
-                updateSpec.registryAuthFrom = req.query.registryAuthFrom;
-                updateSpec.rollback = req.query.rollback;
+                    updateSpec.version = req.query.version;
+                    updateSpec.registryAuthFrom = req.query.registryAuthFrom;
+                    updateSpec.rollback = req.query.rollback;
 
-                const registryAuth = getAuthForDockerImage(taskTemplate.ContainerSpec!.Image);
-                if (ONLY_KNOWN_REGISTRIES && !registryAuth.auth) {
-                    res.status(403).send('Access denied: Only known registries are allowed.');
-                    return;
-                }
+                    if (validation.auth && !validation.auth.anonymous) {
+                        const response = await service.update(toAuthConfig(validation.auth), updateSpec);
+                        res.json(response);
+                        return;
+                    }
 
-                const permissionCheckResult = await checkPermissionsOnDockerImage(taskTemplate.ContainerSpec!.Image, registryAuth.auth);
-                if (!permissionCheckResult.success) {
-                    res.status(403).send(permissionCheckResult.errorMessage);
-                    return;
-                }
+                    // Update service with the new specifications
+                    const response = await service.update(updateSpec);
 
-                if (registryAuth.auth && !registryAuth.auth.anonymous) {
-                    const response = await service.update({
-                        username: registryAuth.auth.username!,
-                        password: registryAuth.auth.password!,
-                        serveraddress: registryAuth.auth.serveraddress!,
-                    }, updateSpec);
                     res.json(response);
-                    return;
-                }
-
-                // Update service with the new specifications
-                const response = await service.update(updateSpec);
-
-                res.json(response);
+                });
             } catch (error: any) {
                 console.error(error);
-                res.status(500).json({ message: error.message });
+                sendError(res, 500, error.message);
             }
         } else {
-            res.status(403).send('Access denied: Service is not owned.');
+            denyUnowned(res, 'service', serviceId, 403, 'Access denied: Service is not owned.');
         }
     });
 
-    router.get('/:version?/services', async (req, res) => {
+    router.get('/:version?/services', requireRole('viewer'), async (req, res) => {
         try {
-            // TODO: push down filtering of ownership
             const services = await docker.listServices({
-                filters: req.query.filters as any,
+                filters: withFilter(req.query.filters, 'label', tenantFilter) as any,
                 status: req.query.status as any,
             });
+            // still check ownership in case the filter is not applied by docker
             const ownedServices = services.filter(s => isServiceOwned(s));
             res.json(ownedServices);
         } catch (error: any) {
             console.error(error);
-            res.status(500).json({ message: error.message });
+            sendError(res, error instanceof InvalidFilterError ? 400 : 500, error.message);
         }
     });
 
-    router.get('/:version?/services/:id', async (req, res) => {
+    router.get('/:version?/services/:id', requireRole('viewer'), async (req, res) => {
         const serviceId = req.params.id;
 
         if (await isOwnedService(serviceId)) {
@@ -534,18 +726,18 @@ export function setupRoutes(tenantLabelValue: string) {
                 res.json(service);
             } catch (error: any) {
                 console.error(error);
-                res.status(500).json({ message: error.message });
+                sendError(res, 500, error.message);
             }
         } else {
-            res.status(403).send('Access denied: Service is not owned.');
+            denyUnowned(res, 'service', serviceId, 403, 'Access denied: Service is not owned.');
         }
     });
 
-    router.delete('/:version?/services/:id', async (req, res) => {
+    router.delete('/:version?/services/:id', requireRole('deployer'), async (req, res) => {
         const serviceId = req.params.id;
 
         if (!(await isOwnedService(serviceId))) {
-            return res.status(403).json({ message: 'Access Denied: Service not owned' });
+            return denyUnowned(res, 'service', serviceId, 403, 'Access Denied: Service not owned');
         }
 
         try {
@@ -554,75 +746,91 @@ export function setupRoutes(tenantLabelValue: string) {
             res.status(200).json({ message: 'Service deleted successfully' });
         } catch (error: any) {
             console.error(error);
-            res.status(500).json({ message: error.message });
+            sendError(res, 500, error.message);
         }
     });
 
 
-    router.get('/:version?/services/:id/logs', async (req, res) => {
+    router.get('/:version?/services/:id/logs', requireRole('viewer'), async (req, res) => {
         const serviceId = req.params.id;
 
         if (!(await isOwnedService(serviceId))) {
-            return res.status(403).json({ message: 'Access Denied: Service not owned' });
+            return denyUnowned(res, 'service', serviceId, 403, 'Access Denied: Service not owned');
         }
 
         proxyRequestToDockerWithStrippedAuthInfo(req, res);
     });
 
+    async function getOwnedServiceIds(): Promise<Set<string>> {
+        const services = await docker.listServices({
+            filters: withFilter(undefined, 'label', tenantFilter) as any,
+        });
+        return new Set(services.filter(s => isServiceOwned(s)).map(s => s.ID));
+    }
+
     // Endpoint to list tasks, showing only those related to owned services
-    router.get('/:version?/tasks', async (req, res) => {
+    router.get('/:version?/tasks', requireRole('viewer'), async (req, res) => {
         try {
-            const filters = req.query.filters as any;
-            const tasks = await docker.listTasks({
-                filters: filters
-            });
-            const ownedTasks = [];
+            // resolve ownership once for all tasks instead of per task
+            const ownedServiceIds = await getOwnedServiceIds();
+            if (ownedServiceIds.size === 0) {
+                res.json([]);
+                return;
+            }
 
-            for (const task of tasks) {
-                if (await isOwnedService(task.ServiceID)) {
-                    ownedTasks.push(task);
-                }
+            // docker ORs the values of a filter, so we can only push down the
+            // owned services if the client did not filter by service themselves
+            const filters = parseFilters(req.query.filters);
+            if (!filters.service) {
+                filters.service = Object.fromEntries([...ownedServiceIds].map(id => [id, true]));
             }
+            const tasks = await docker.listTasks({
+                filters: filters as any
+            });
 
+            const ownedTasks = tasks.filter(task => ownedServiceIds.has(task.ServiceID));
             res.json(ownedTasks);
         } catch (error: any) {
             console.error(error);
-            res.status(500).json({ message: error.message });
+            sendError(res, error instanceof InvalidFilterError ? 400 : 500, error.message);
         }
     });
 
-    async function isTaskOfOwnedService(taskId: string): Promise<boolean> {
+    // returns the task if it belongs to an owned service
+    async function getTaskOfOwnedService(taskId: string): Promise<any | undefined> {
         try {
             const task = await docker.getTask(taskId).inspect();
-            return isOwnedService(task.ServiceID);
+            if (task && await isOwnedService(task.ServiceID)) {
+                return task;
+            }
+            return undefined;
         } catch (error) {
             console.error(error);
-            return false;
+            return undefined;
         }
     }
 
+    async function isTaskOfOwnedService(taskId: string): Promise<boolean> {
+        return !!(await getTaskOfOwnedService(taskId));
+    }
+
     // Endpoint to inspect a task, ensuring it belongs to an owned service
-    router.get('/:version?/tasks/:id', async (req, res) => {
+    router.get('/:version?/tasks/:id', requireRole('viewer'), async (req, res) => {
         const taskId = req.params.id;
 
-        if (await isTaskOfOwnedService(taskId)) {
-            try {
-                const task = await docker.getTask(taskId).inspect();
-                res.json(task);
-            } catch (error: any) {
-                console.error(error);
-                res.status(500).json({ message: error.message });
-            }
+        const task = await getTaskOfOwnedService(taskId);
+        if (task) {
+            res.json(task);
         } else {
-            res.status(403).send('Access denied: Task does not belong to an owned service.');
+            denyUnowned(res, 'task', taskId, 403, 'Access denied: Task does not belong to an owned service.');
         }
     });
 
-    router.get('/:version?/tasks/:id/logs', async (req, res) => {
+    router.get('/:version?/tasks/:id/logs', requireRole('viewer'), async (req, res) => {
         const taskId = req.params.id;
 
         if (!(await isTaskOfOwnedService(taskId))) {
-            return res.status(403).json({ message: 'Access Denied: Service not owned' });
+            return denyUnowned(res, 'task', taskId, 403, 'Access Denied: Service not owned');
         }
 
         proxyRequestToDockerWithStrippedAuthInfo(req, res);
@@ -631,7 +839,7 @@ export function setupRoutes(tenantLabelValue: string) {
     // Networks
 
     function isNetworkOwned(network: Docker.NetworkInspectInfo, includeAllowListed: boolean): boolean {
-        if (includeAllowListed && SERVICE_ALLOW_LISTED_NETWORKS.includes(network.Name)) {
+        if (includeAllowListed && policy().serviceAllowListedNetworks.includes(network.Name)) {
             return true;
         }
         return !!(network.Labels && network.Labels[tenantLabel] == tenantLabelValue);
@@ -639,7 +847,7 @@ export function setupRoutes(tenantLabelValue: string) {
 
     async function isOwnedNetwork(networkId: string, includeAllowListed: boolean = false): Promise<boolean> {
         try {
-            const network = await docker.getNetwork(networkId).inspect();
+            const network = await ownershipIndex.inspect('network', networkId);
             return network && isNetworkOwned(network, includeAllowListed);
         } catch (error) {
             console.error(error);
@@ -647,49 +855,112 @@ export function setupRoutes(tenantLabelValue: string) {
         }
     }
 
-    // Endpoint to create a network with ownership label
-    router.post('/:version?/networks/create', async (req, res) => {
-        const networkSpec = req.body;
+    // hands out a subnet from the tenant's address pool, or checks the chosen one is free
+    async function assignSubnet(networkSpec: NetworkSpec, addressPool: string, subnetSize: number | undefined): Promise<Violation[]> {
+        const networks = await docker.listNetworks();
+        const usedSubnets = networks.flatMap(network => (network.IPAM?.Config || []).map(config => config.Subnet).filter((subnet): subnet is string => !!subnet));
+
+        const requestedSubnets = (networkSpec.IPAM?.Config || []).map(config => config.Subnet!);
+        if (requestedSubnets.length > 0) {
+            const overlapping = findOverlappingSubnet(requestedSubnets, usedSubnets);
+            if (overlapping) {
+                return [violation('network.subnet', `Access denied: Subnet ${overlapping} overlaps with an existing network.`)];
+            }
+            return [];
+        }
+
+        const subnet = allocateSubnet(addressPool, subnetSize, usedSubnets);
+        if (!subnet) {
+            return [violation('network.subnet', `Access denied: Address pool ${addressPool} is exhausted.`)];
+        }
+        networkSpec.IPAM = { ...networkSpec.IPAM, Config: [{ Subnet: subnet }] };
+        return [];
+    }
+
+    // applies the ownership label and the network policy, subnets are assigned separately
+    async function checkNetworkCreate(networkSpec: any): Promise<Violation[]> {
         networkSpec.Labels = { ...networkSpec.Labels, [tenantLabel]: tenantLabelValue };
 
+        const networkPolicy = policy().networkPolicy;
+        const violations = [
+            ...checkResourceName('Network', networkSpec.Name),
+            ...checkNetworkSpec(networkSpec, networkPolicy).map(message => violation('network.policy', message)),
+            ...await checkWithinQuotas({ networks: 1 }),
+        ];
+        if (violations.length === 0) {
+            applyNetworkPolicy(networkSpec, networkPolicy);
+        }
+        return violations;
+    }
+
+    // Endpoint to create a network with ownership label
+    router.post('/:version?/networks/create', requireRole('deployer'), async (req, res) => {
+        const networkSpec = req.body;
         try {
-            if (!networkSpec.Name) {
-                res.status(400).send(`Network name is required.`);
-                return;
-            }
-            if (!isResourceNameAllowed(networkSpec.Name)) {
-                res.status(400).send(`Network name ${networkSpec.Name} is not allowed.`);
-                return;
-            }
+            await serializeQuotaChecked(async () => {
+                const violations = await checkNetworkCreate(networkSpec);
+                if (violations.length > 0) {
+                    sendViolations(res, violations);
+                    return;
+                }
 
-            const network = await docker.createNetwork(networkSpec);
-            res.status(201).json(network);
+                const networkPolicy = policy().networkPolicy;
+                await serializeNetworkCreation(async () => {
+                    if (networkPolicy.addressPool) {
+                        const subnetViolations = await assignSubnet(networkSpec, networkPolicy.addressPool, networkPolicy.subnetSize);
+                        if (subnetViolations.length > 0) {
+                            sendViolations(res, subnetViolations);
+                            return;
+                        }
+                    }
+                    const network = await docker.createNetwork(networkSpec);
+                    res.status(201).json(network);
+                });
+            });
         } catch (error: any) {
             console.error(error);
-            res.status(500).json({ message: error.message });
+            sendError(res, 500, error.message);
         }
     });
 
     // Endpoint to list all owned networks
-    router.get('/:version?/networks', async (req, res) => {
+    router.get('/:version?/networks', requireRole('viewer'), async (req, res) => {
         try {
-            // TODO: push down ownership filtering
-            const filters = req.query.filters as any;
             const networks = await docker.listNetworks({
-                filters: filters,
+                filters: withFilter(req.query.filters, 'label', tenantFilter) as any,
             });
+
             // list the service allow listed networks as well
             // this is fine, read only only here.
+            const allowListedNetworks = policy().serviceAllowListedNetworks;
+            if (allowListedNetworks.length > 0) {
+                // docker ORs the values of a filter, so we can only add the names
+                // if the client did not filter by name themselves
+                const filters = parseFilters(req.query.filters);
+                if (!filters.name) {
+                    filters.name = Object.fromEntries(allowListedNetworks.map(name => [name, true]));
+                }
+                const sharedNetworks = await docker.listNetworks({
+                    filters: filters as any,
+                });
+                for (const network of sharedNetworks) {
+                    if (!networks.some(net => net.Id === network.Id)) {
+                        networks.push(network);
+                    }
+                }
+            }
+
+            // still check ownership in case the filter is not applied by docker
             const ownedNetworks = networks.filter((net) => isNetworkOwned(net, true));
             res.json(ownedNetworks);
         } catch (error: any) {
             console.error(error);
-            res.status(500).json({ message: error.message });
+            sendError(res, error instanceof InvalidFilterError ? 400 : 500, error.message);
         }
     });
 
     // Endpoint to delete a network, respecting ownership
-    router.delete('/:version?/networks/:id', async (req, res) => {
+    router.delete('/:version?/networks/:id', requireRole('deployer'), async (req, res) => {
         const networkId = req.params.id;
 
         if (await isOwnedNetwork(networkId)) {
@@ -699,15 +970,15 @@ export function setupRoutes(tenantLabelValue: string) {
                 res.status(200).send(`Network ${networkId} deleted successfully.`);
             } catch (error: any) {
                 console.error(error);
-                res.status(500).json({ message: error.message });
+                sendError(res, 500, error.message);
             }
         } else {
-            res.status(403).send('Access denied: Network is not owned.');
+            denyUnowned(res, 'network', networkId, 403, 'Access denied: Network is not owned.');
         }
     });
 
     // Endpoint to inspect a network, respecting ownership
-    router.get('/:version?/networks/:id', async (req, res) => {
+    router.get('/:version?/networks/:id', requireRole('viewer'), async (req, res) => {
         const networkId = req.params.id;
 
         // allowed to get the service allow listed networks as well
@@ -721,13 +992,27 @@ export function setupRoutes(tenantLabelValue: string) {
                     verbose: req.query.verbose,
                     scope: req.query.scope,
                 });
-                res.json(networkInfo);
+                if (isNetworkOwned(networkInfo, false)) {
+                    res.json(networkInfo);
+                    return;
+                }
+
+                // shared network, don't leak the endpoints of other tenants
+                const [containers, services] = await Promise.all([
+                    docker.listContainers({ all: true, filters: { label: [tenantFilter] } }),
+                    docker.listServices({ filters: withFilter(undefined, 'label', tenantFilter) as any }),
+                ]);
+                res.json(reduceSharedNetwork(
+                    networkInfo,
+                    new Set(containers.map(container => container.Id)),
+                    new Set(services.filter(service => isServiceOwned(service)).map(service => service.Spec!.Name!))
+                ));
             } catch (error: any) {
                 console.error(error);
-                res.status(500).json({ message: error.message });
+                sendError(res, 500, error.message);
             }
         } else {
-            res.status(403).send('Access denied: Network is not owned.');
+            denyUnowned(res, 'network', networkId, 403, 'Access denied: Network is not owned.');
         }
     });
 
@@ -739,7 +1024,7 @@ export function setupRoutes(tenantLabelValue: string) {
 
     async function isOwnedSecret(secretId: string): Promise<boolean> {
         try {
-            const secret = await docker.getSecret(secretId).inspect();
+            const secret = await ownershipIndex.inspect('secret', secretId);
             return secret && isSecretOwned(secret);
         } catch (error) {
             console.error(error);
@@ -747,47 +1032,84 @@ export function setupRoutes(tenantLabelValue: string) {
         }
     }
 
+    type SecretOrConfigSpec = {
+        Name?: string,
+        Data?: string,
+        // secrets only
+        Driver?: { Name: string, Options?: { [key: string]: string } },
+        Templating?: { Name: string, Options?: { [key: string]: string } }
+    }
+
+    // checks the drivers. Templates need no further check: swarm only expands the secrets
+    // and configs attached to the same service, and those are checked on service create
+    function checkSecretOrConfigSpec(kind: 'secret' | 'config', spec: SecretOrConfigSpec): Violation[] {
+        const violations: Violation[] = [];
+        if (kind === 'secret' && spec.Driver && !policy().allowedSecretDrivers.includes(spec.Driver.Name)) {
+            violations.push(violation('secret.driver', `Access denied: Secret driver ${spec.Driver.Name} is not allowed.`));
+        }
+        if (spec.Templating && !policy().allowedTemplateDrivers.includes(spec.Templating.Name)) {
+            violations.push(violation('template.driver', `Access denied: Template driver ${spec.Templating.Name} is not allowed.`));
+        }
+        return violations;
+    }
+
+    // only the labels can be updated, the name is part of what ownership relies on
+    async function checkSecretOrConfigUpdate(kind: 'secret' | 'config', id: string, spec: SecretOrConfigSpec): Promise<Violation[]> {
+        const violations: Violation[] = [];
+        const existing = await ownershipIndex.inspect(kind, id);
+        if (spec.Name !== undefined && spec.Name !== existing.Spec?.Name) {
+            violations.push(violation('name', `Access denied: The name of a ${kind} can not be changed.`));
+        }
+        return [...violations, ...checkSecretOrConfigSpec(kind, spec)];
+    }
+
+    async function checkSecretOrConfigCreate(kind: 'secret' | 'config', spec: SecretOrConfigSpec & { Labels?: { [key: string]: string } }): Promise<Violation[]> {
+        spec.Labels = { ...spec.Labels, [tenantLabel]: tenantLabelValue };
+        return [
+            ...checkResourceName(kind === 'secret' ? 'Secret' : 'Config', spec.Name),
+            ...checkSecretOrConfigSpec(kind, spec),
+            ...await checkWithinQuotas(kind === 'secret' ? { secrets: 1 } : { configs: 1 }),
+        ];
+    }
+
     // Endpoint to create a secret with ownership label
-    router.post('/:version?/secrets/create', async (req, res) => {
+    router.post('/:version?/secrets/create', requireRole('deployer'), async (req, res) => {
         const secretSpec = req.body;
-        secretSpec.Labels = { ...secretSpec.Labels, [tenantLabel]: tenantLabelValue };
-
         try {
-            if (!secretSpec.Name) {
-                res.status(400).send(`Secret name is required.`);
-                return;
-            }
-            if (!isResourceNameAllowed(secretSpec.Name)) {
-                res.status(400).send(`Secret name ${secretSpec.Name} is not allowed.`);
-                return;
-            }
+            await serializeQuotaChecked(async () => {
+                const violations = await checkSecretOrConfigCreate('secret', secretSpec);
+                if (violations.length > 0) {
+                    sendViolations(res, violations);
+                    return;
+                }
 
-            const secret = await docker.createSecret(secretSpec);
-            res.status(201).json(secret);
+                const secret = await docker.createSecret(secretSpec);
+                res.status(201).json(secret);
+            });
         } catch (error: any) {
             console.error(error);
-            res.status(500).json({ message: error.message });
+            sendError(res, 500, error.message);
         }
     });
 
     // Endpoint to list all owned secrets
-    router.get('/:version?/secrets', async (req, res) => {
+    router.get('/:version?/secrets', requireRole('viewer'), async (req, res) => {
         try {
-            // TODO: push down ownership filtering
-            const filters = req.query.filters as any;
             const secrets = await docker.listSecrets({
-                filters: filters,
+                filters: withFilter(req.query.filters, 'label', tenantFilter) as any,
             });
+            // still check ownership in case the filter is not applied by docker
             const ownedSecrets = secrets.filter((sec) => isSecretOwned(sec));
             res.json(ownedSecrets);
         } catch (error: any) {
             console.error(error);
-            res.status(500).json({ message: error.message });
+            sendError(res, error instanceof InvalidFilterError ? 400 : 500, error.message);
         }
     });
 
-    // Endpoint to delete a secret, respecting ownership
-    router.delete('/:version?/secrets/:id', async (req, res) => {
+    // Endpoint to delete a secret, respecting ownership.
+    // Deleting it loses data, so deployers can't
+    router.delete('/:version?/secrets/:id', requireRole('admin'), async (req, res) => {
         const secretId = req.params.id;
 
         if (await isOwnedSecret(secretId)) {
@@ -797,15 +1119,15 @@ export function setupRoutes(tenantLabelValue: string) {
                 res.status(200).send(`Secret ${secretId} deleted successfully.`);
             } catch (error: any) {
                 console.error(error);
-                res.status(500).json({ message: error.message });
+                sendError(res, 500, error.message);
             }
         } else {
-            res.status(403).send('Access denied: Secret is not owned.');
+            denyUnowned(res, 'secret', secretId, 403, 'Access denied: Secret is not owned.');
         }
     });
 
     // Endpoint to inspect a secret, respecting ownership
-    router.get('/:version?/secrets/:id', async (req, res) => {
+    router.get('/:version?/secrets/:id', requireRole('viewer'), async (req, res) => {
         const secretId = req.params.id;
 
         if (await isOwnedSecret(secretId)) {
@@ -815,31 +1137,36 @@ export function setupRoutes(tenantLabelValue: string) {
                 res.json(secretInfo);
             } catch (error: any) {
                 console.error(error);
-                res.status(500).json({ message: error.message });
+                sendError(res, 500, error.message);
             }
         } else {
             // 404 or docker cli is not happy in docker stack creation
-            res.status(404).send('Access denied: Secret is not owned.');
+            denyUnowned(res, 'secret', secretId, 404, 'Access denied: Secret is not owned.');
         }
     });
 
     // Endpoint to update a secret, respecting ownership
-    router.post('/:version?/secrets/:id/update', async (req, res) => {
+    router.post('/:version?/secrets/:id/update', requireRole('deployer'), async (req, res) => {
         const secretId = req.params.id;
         if (await isOwnedSecret(secretId)) {
             const secretSpec = req.body;
             secretSpec.Labels = { ...secretSpec.Labels, [tenantLabel]: tenantLabelValue };
             try {
+                const violations = await checkSecretOrConfigUpdate('secret', secretId, secretSpec);
+                if (violations.length > 0) {
+                    sendViolations(res, violations);
+                    return;
+                }
                 secretSpec.version = req.query.version;
                 const secret = docker.getSecret(secretId);
                 const secretInfo = await secret.update(secretSpec);
                 res.json(secretInfo);
             } catch (error: any) {
                 console.error(error);
-                res.status(500).json({ message: error.message });
+                sendError(res, 500, error.message);
             }
         } else {
-            res.status(403).send('Access denied: Secret is not owned.');
+            denyUnowned(res, 'secret', secretId, 403, 'Access denied: Secret is not owned.');
         }
     });
 
@@ -852,7 +1179,7 @@ export function setupRoutes(tenantLabelValue: string) {
 
     async function isOwnedConfig(configId: string): Promise<boolean> {
         try {
-            const config = await docker.getConfig(configId).inspect();
+            const config = await ownershipIndex.inspect('config', configId);
             return config && isConfigOwned(config);
         } catch (error) {
             console.error(error);
@@ -861,46 +1188,42 @@ export function setupRoutes(tenantLabelValue: string) {
     }
 
     // Endpoint to create a config with ownership label
-    router.post('/:version?/configs/create', async (req, res) => {
+    router.post('/:version?/configs/create', requireRole('deployer'), async (req, res) => {
         const configSpec = req.body;
-        configSpec.Labels = { ...configSpec.Labels, [tenantLabel]: tenantLabelValue };
-
         try {
-            if (!configSpec.Name) {
-                res.status(400).send(`Config name is required.`);
-                return;
-            }
-            if (!isResourceNameAllowed(configSpec.Name)) {
-                res.status(400).send(`Config name ${configSpec.Name} is not allowed.`);
-                return;
-            }
+            await serializeQuotaChecked(async () => {
+                const violations = await checkSecretOrConfigCreate('config', configSpec);
+                if (violations.length > 0) {
+                    sendViolations(res, violations);
+                    return;
+                }
 
-            const config = await docker.createConfig(configSpec);
-            res.status(201).json(config);
+                const config = await docker.createConfig(configSpec);
+                res.status(201).json(config);
+            });
         } catch (error: any) {
             console.error(error);
-            res.status(500).json({ message: error.message });
+            sendError(res, 500, error.message);
         }
     });
 
     // Endpoint to list all owned configs
-    router.get('/:version?/configs', async (req, res) => {
+    router.get('/:version?/configs', requireRole('viewer'), async (req, res) => {
         try {
-            // TODO: push down ownership filtering
-            const filters = req.query.filters as any;
             const configs = await docker.listConfigs({
-                filters: filters,
+                filters: withFilter(req.query.filters, 'label', tenantFilter) as any,
             });
+            // still check ownership in case the filter is not applied by docker
             const ownedConfigs = configs.filter((conf) => isConfigOwned(conf));
             res.json(ownedConfigs);
         } catch (error: any) {
             console.error(error);
-            res.status(500).json({ message: error.message });
+            sendError(res, error instanceof InvalidFilterError ? 400 : 500, error.message);
         }
     });
 
     // Endpoint to delete a config, respecting ownership
-    router.delete('/:version?/configs/:id', async (req, res) => {
+    router.delete('/:version?/configs/:id', requireRole('deployer'), async (req, res) => {
         const configId = req.params.id;
 
         if (await isOwnedConfig(configId)) {
@@ -910,15 +1233,15 @@ export function setupRoutes(tenantLabelValue: string) {
                 res.status(200).send(`Config ${configId} deleted successfully.`);
             } catch (error: any) {
                 console.error(error);
-                res.status(500).json({ message: error.message });
+                sendError(res, 500, error.message);
             }
         } else {
-            res.status(403).send('Access denied: Config is not owned.');
+            denyUnowned(res, 'config', configId, 403, 'Access denied: Config is not owned.');
         }
     });
 
     // Endpoint to inspect a config, respecting ownership
-    router.get('/:version?/configs/:id', async (req, res) => {
+    router.get('/:version?/configs/:id', requireRole('viewer'), async (req, res) => {
         const configId = req.params.id;
 
         if (await isOwnedConfig(configId)) {
@@ -928,40 +1251,45 @@ export function setupRoutes(tenantLabelValue: string) {
                 res.json(configInfo);
             } catch (error: any) {
                 console.error(error);
-                res.status(500).json({ message: error.message });
+                sendError(res, 500, error.message);
             }
         } else {
             // 404 or docker cli is not happy in docker stack creation
-            res.status(404).send('Access denied: Config is not owned.');
+            denyUnowned(res, 'config', configId, 404, 'Access denied: Config is not owned.');
         }
     });
 
     // Endpoint to update a config, respecting ownership
-    router.post('/:version?/configs/:id/update', async (req, res) => {
+    router.post('/:version?/configs/:id/update', requireRole('deployer'), async (req, res) => {
         const configId = req.params.id;
 
         if (await isOwnedConfig(configId)) {
             const configSpec = req.body;
             configSpec.Labels = { ...configSpec.Labels, [tenantLabel]: tenantLabelValue };
             try {
+                const violations = await checkSecretOrConfigUpdate('config', configId, configSpec);
+                if (violations.length > 0) {
+                    sendViolations(res, violations);
+                    return;
+                }
                 configSpec.version = req.query.version;
                 const config = docker.getConfig(configId);
                 const configInfo = await config.update(configSpec);
                 res.json(configInfo);
             } catch (error: any) {
                 console.error(error);
-                res.status(500).json({ message: error.message });
+                sendError(res, 500, error.message);
             }
         } else {
-            res.status(403).send('Access denied: Config is not owned.');
+            denyUnowned(res, 'config', configId, 403, 'Access denied: Config is not owned.');
         }
     });
 
     // volume code
 
     function isVolumeOwned(volume: Docker.VolumeInspectInfo): boolean {
-        if(CHECK_VOLUME_OWNERSHIP_VIA_PREFIX) {
-            return volume.Name.startsWith(tenantLabelValue);
+        if(policy().checkVolumeOwnershipViaPrefix) {
+            return isResourceNameAllowed(volume.Name);
         }
         if(!volume.Labels) {
             return false;
@@ -971,7 +1299,7 @@ export function setupRoutes(tenantLabelValue: string) {
 
     async function isOwnedVolume(volumeName: string): Promise<boolean> {
         try {
-            const volume = await docker.getVolume(volumeName).inspect();
+            const volume = await ownershipIndex.inspect('volume', volumeName);
             return isVolumeOwned(volume);
         } catch (error) {
             console.error(error);
@@ -979,58 +1307,70 @@ export function setupRoutes(tenantLabelValue: string) {
         }
     }
 
-    // Endpoint to create a volume with ownership label
-    router.post('/:version?/volumes/create', async (req, res) => {
-        const volumeSpec: Docker.VolumeCreateOptions = req.body;
+    async function checkVolumeCreate(volumeSpec: Docker.VolumeCreateOptions): Promise<Violation[]> {
         volumeSpec.Labels = { ...volumeSpec.Labels, [tenantLabel]: tenantLabelValue };
 
-        try {
-            if (!volumeSpec.Name) {
-                res.status(400).send(`Volume name is required.`);
-                return;
-            }
-            if (!isResourceNameAllowed(volumeSpec.Name)) {
-                res.status(400).send(`Volume name ${volumeSpec.Name} is not allowed.`);
-                return;
-            }
+        const violations = checkResourceName('Volume', volumeSpec.Name);
 
-            if (!volumeSpec.Driver) {
-                res.status(400).send(`Volume driver is required.`);
-                return;
-            }
-            if (!isVolumeDriverAllowed(volumeSpec.Driver)) {
-                res.status(400).send(`Volume driver ${volumeSpec.Driver} is not allowed.`);
-                return;
+        if (!volumeSpec.Driver) {
+            violations.push(violation('volume.driver', `Volume driver is required.`, 400));
+        } else if (!isVolumeDriverAllowed(volumeSpec.Driver)) {
+            violations.push(violation('volume.driver', `Volume driver ${volumeSpec.Driver} is not allowed.`, 400));
+        } else {
+            const localVolumeError = checkLocalVolumeDriverOptions(volumeSpec.Driver, volumeSpec.DriverOpts);
+            if (localVolumeError) {
+                violations.push(violation('mount.bind', localVolumeError));
             }
+        }
 
-            // for cluster volumes verify secret access permissions
-            const clusterVolumeSpec = (volumeSpec as any).ClusterVolumeSpec;
-            // TOOD: should we disallow creation of volumes if they are not allowed
-            // maybe check against mount type?
-            if (clusterVolumeSpec.AccessMode && clusterVolumeSpec.AccessMode.Secrets) {
-                for (const secret of clusterVolumeSpec.AccessMode.Secrets) {
-                    if (!await isOwnedSecret(secret.Secret)) {
-                        res.status(403).send(`Access denied: Secret ${secret.Secret} is not owned.`);
-                        return;
-                    }
+        violations.push(...await checkWithinQuotas({ volumes: 1 }));
+
+        // for cluster volumes verify secret access permissions
+        const clusterVolumeSpec = (volumeSpec as any).ClusterVolumeSpec;
+        // TOOD: should we disallow creation of volumes if they are not allowed
+        // maybe check against mount type?
+        if (clusterVolumeSpec?.AccessMode && clusterVolumeSpec.AccessMode.Secrets) {
+            for (const secret of clusterVolumeSpec.AccessMode.Secrets) {
+                if (!await isOwnedSecret(secret.Secret)) {
+                    violations.push(violation('secret.owned', `Access denied: Secret ${secret.Secret} is not owned.`));
                 }
             }
+        }
+        return violations;
+    }
 
-            const volume = await docker.createVolume(volumeSpec);
-            res.status(201).json(volume);
+    // Endpoint to create a volume with ownership label
+    router.post('/:version?/volumes/create', requireRole('deployer'), async (req, res) => {
+        const volumeSpec: Docker.VolumeCreateOptions = req.body;
+        try {
+            await serializeQuotaChecked(async () => {
+                const violations = await checkVolumeCreate(volumeSpec);
+                if (violations.length > 0) {
+                    sendViolations(res, violations);
+                    return;
+                }
+
+                const volume = await docker.createVolume(volumeSpec);
+                res.status(201).json(volume);
+            });
         } catch (error: any) {
             console.error(error);
-            res.status(500).json({ message: error.message });
+            sendError(res, 500, error.message);
         }
     });
 
     // Endpoint to list all owned volumes
-    router.get('/:version?/volumes', async (req, res) => {
+    router.get('/:version?/volumes', requireRole('viewer'), async (req, res) => {
         try {
-            // TODO: push down ownership filtering
+            // ownership via prefix can't be expressed as a docker filter
+            // as the name filter also matches substrings
+            const filters = policy().checkVolumeOwnershipViaPrefix
+                ? parseFilters(req.query.filters)
+                : withFilter(req.query.filters, 'label', tenantFilter);
             const volumes = await docker.listVolumes({
-                filters: req.query.filters as any,
+                filters: filters as any,
             });
+            // still check ownership in case the filter is not applied by docker
             const ownedVolumes = volumes.Volumes.filter(v => isVolumeOwned(v));
             res.json({
                 Volumes: ownedVolumes,
@@ -1038,12 +1378,13 @@ export function setupRoutes(tenantLabelValue: string) {
             });
         } catch (error: any) {
             console.error(error);
-            res.status(500).json({ message: error.message });
+            sendError(res, error instanceof InvalidFilterError ? 400 : 500, error.message);
         }
     });
 
-    // Endpoint to delete a volume, respecting ownership
-    router.delete('/:version?/volumes/:name', async (req, res) => {
+    // Endpoint to delete a volume, respecting ownership.
+    // Deleting it loses data, so deployers can't
+    router.delete('/:version?/volumes/:name', requireRole('admin'), async (req, res) => {
         const volumeName = req.params.name;
 
         if (await isOwnedVolume(volumeName)) {
@@ -1055,15 +1396,15 @@ export function setupRoutes(tenantLabelValue: string) {
                 res.status(200).send(`Volume ${volumeName} deleted successfully.`);
             } catch (error: any) {
                 console.error(error);
-                res.status(500).json({ message: error.message });
+                sendError(res, 500, error.message);
             }
         } else {
-            res.status(403).send('Access denied: Volume is not owned.');
+            denyUnowned(res, 'volume', volumeName, 403, 'Access denied: Volume is not owned.');
         }
     });
 
     // Endpoint to inspect a volume, respecting ownership
-    router.get('/:version?/volumes/:name', async (req, res) => {
+    router.get('/:version?/volumes/:name', requireRole('viewer'), async (req, res) => {
         const volumeName = req.params.name;
 
         if (await isOwnedVolume(volumeName)) {
@@ -1072,15 +1413,15 @@ export function setupRoutes(tenantLabelValue: string) {
                 res.json(volume);
             } catch (error: any) {
                 console.error(error);
-                res.status(500).json({ message: error.message });
+                sendError(res, 500, error.message);
             }
         } else {
-            res.status(403).send('Access denied: Volume is not owned.');
+            denyUnowned(res, 'volume', volumeName, 403, 'Access denied: Volume is not owned.');
         }
     });
 
     // Endpoint to update a volume, respecting ownership (only supported for cluster volumes)
-    router.put('/:version?/volumes/:name', async (req, res) => {
+    router.put('/:version?/volumes/:name', requireRole('deployer'), async (req, res) => {
         const volumeName = req.params.name;
         const version = req.params.version;
         if (await isOwnedVolume(volumeName)) {
@@ -1107,10 +1448,298 @@ export function setupRoutes(tenantLabelValue: string) {
                 res.send(ret);
             } catch (error: any) {
                 console.error(error);
-                res.status(500).json({ message: error.message });
+                sendError(res, 500, error.message);
             }
         } else {
-            res.status(403).send('Access denied: Volume is not owned.');
+            denyUnowned(res, 'volume', volumeName, 403, 'Access denied: Volume is not owned.');
+        }
+    });
+
+    // events
+
+    // event types that can be attributed to a tenant. Everything else
+    // (nodes, images, plugins, the daemon) is never passed through
+    const TENANT_EVENT_TYPES = ['service', 'container', 'network', 'secret', 'config', 'volume'];
+
+    async function isEventOwned(event: any): Promise<boolean> {
+        const actor = event.Actor || {};
+        const attributes = actor.Attributes || {};
+        if (!actor.ID) {
+            return false;
+        }
+        switch (event.Type) {
+            case 'container':
+                // container events carry the container labels, which include the tenant label
+                // that we set on every ContainerSpec
+                return attributes[tenantLabel] === tenantLabelValue
+                    && !!attributes['com.docker.swarm.service.name']
+                    && isResourceNameAllowed(attributes['com.docker.swarm.service.name']);
+            case 'service':
+            case 'network':
+            case 'secret':
+            case 'config':
+            case 'volume': {
+                let object: any;
+                try {
+                    object = await ownershipIndex.inspect(event.Type, actor.ID);
+                } catch (error) {
+                    // the object is gone already (e.g. remove events), all we have left is the name.
+                    // volumes are identified by their name
+                    const name = event.Type === 'volume' ? actor.ID : attributes.name;
+                    return !!name && isResourceNameAllowed(name);
+                }
+                switch (event.Type) {
+                    case 'service':
+                        return isServiceOwned(object);
+                    case 'network':
+                        return isNetworkOwned(object, false);
+                    case 'secret':
+                        return isSecretOwned(object);
+                    case 'config':
+                        return isConfigOwned(object);
+                    default:
+                        return isVolumeOwned(object);
+                }
+            }
+            default:
+                return false;
+        }
+    }
+
+    router.get('/:version?/events', requireRole('viewer'), (req, res) => {
+        let filters;
+        try {
+            filters = parseFilters(req.query.filters);
+        } catch (error: any) {
+            sendError(res, 400, error.message);
+            return;
+        }
+        const requestedTypes = Object.keys(filters.type || {});
+        const types = requestedTypes.length > 0
+            ? requestedTypes.filter(type => TENANT_EVENT_TYPES.includes(type))
+            : TENANT_EVENT_TYPES;
+        if (types.length > 0) {
+            filters.type = Object.fromEntries(types.map(type => [type, true]));
+        }
+
+        const query = new URLSearchParams();
+        for (const param of ['since', 'until']) {
+            if (typeof req.query[param] === 'string') {
+                query.set(param, req.query[param] as string);
+            }
+        }
+        query.set('filters', JSON.stringify(filters));
+
+        const options = {
+            path: `${req.path}?${query.toString()}`,
+            method: 'GET',
+        };
+
+        const proxyReq = requestDocker(options, (proxyRes) => {
+            if (proxyRes.statusCode !== 200) {
+                res.writeHead(proxyRes.statusCode || 500, proxyRes.headers);
+                proxyRes.pipe(res);
+                return;
+            }
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.flushHeaders();
+
+            // events are newline delimited JSON. They are checked one after
+            // another so that the order is kept
+            let buffer = '';
+            let pending: Promise<void> = Promise.resolve();
+            proxyRes.on('data', (chunk: Buffer) => {
+                buffer += chunk.toString('utf8');
+                let newline: number;
+                while ((newline = buffer.indexOf('\n')) !== -1) {
+                    const line = buffer.substring(0, newline).trim();
+                    buffer = buffer.substring(newline + 1);
+                    if (!line) {
+                        continue;
+                    }
+                    pending = pending.then(async () => {
+                        try {
+                            const event = JSON.parse(line);
+                            if (types.includes(event.Type) && await isEventOwned(event)) {
+                                res.write(line + '\n');
+                            }
+                        } catch (error) {
+                            console.error('Failed to filter docker event', error);
+                        }
+                    });
+                }
+            });
+            proxyRes.on('end', () => {
+                pending.then(() => res.end());
+            });
+        });
+
+        // stop following events once the client is gone
+        res.on('close', () => {
+            proxyReq.destroy();
+        });
+
+        proxyReq.on('error', (err) => {
+            console.error('Error connecting to docker:', err);
+            if (res.headersSent) {
+                res.end();
+                return;
+            }
+            sendError(res, 500, 'Internal server error');
+        });
+
+        proxyReq.end();
+    });
+
+    // quotas
+
+    type QuotaRequest = {
+        service?: Docker.ServiceSpec,
+        // id or name of the service that is replaced by the requested one on update
+        replacesServiceId?: string,
+        networks?: number,
+        secrets?: number,
+        configs?: number,
+        volumes?: number,
+    }
+
+    async function getQuotaUsage(request: QuotaRequest = {}): Promise<{ current: QuotaUsage, requested: QuotaUsage }> {
+        const current = emptyQuotaUsage();
+        const requested = emptyQuotaUsage();
+
+        let replacedServiceId: string | undefined = undefined;
+        if (request.replacesServiceId) {
+            replacedServiceId = (await docker.getService(request.replacesServiceId).inspect()).ID;
+        }
+
+        const tenantFilters = withFilter(undefined, 'label', tenantFilter) as any;
+        const services = (await docker.listServices({ filters: tenantFilters })).filter(s => isServiceOwned(s));
+        let nodeCount = 0;
+        if (services.some(s => isGlobalService(s.Spec!)) || (request.service && isGlobalService(request.service))) {
+            // global services only run on the node pool of the tenant
+            const nodeSelector = policy().nodeSelector;
+            nodeCount = (await docker.listNodes()).filter(node => matchesConstraints(node as NodeInfo, nodeSelector)).length;
+        }
+        for (const service of services) {
+            addServiceUsage(current, service.Spec!, nodeCount);
+            if (service.ID !== replacedServiceId) {
+                addServiceUsage(requested, service.Spec!, nodeCount);
+            }
+        }
+        if (request.service) {
+            addServiceUsage(requested, request.service, nodeCount);
+        }
+
+        current.networks = (await docker.listNetworks({ filters: tenantFilters })).filter(n => isNetworkOwned(n, false)).length;
+        current.secrets = (await docker.listSecrets({ filters: tenantFilters })).filter(s => isSecretOwned(s)).length;
+        current.configs = (await docker.listConfigs({ filters: tenantFilters })).filter(c => isConfigOwned(c)).length;
+        const volumeFilters = policy().checkVolumeOwnershipViaPrefix ? {} : tenantFilters;
+        current.volumes = (await docker.listVolumes({ filters: volumeFilters })).Volumes.filter(v => isVolumeOwned(v)).length;
+
+        requested.networks = current.networks + (request.networks || 0);
+        requested.secrets = current.secrets + (request.secrets || 0);
+        requested.configs = current.configs + (request.configs || 0);
+        requested.volumes = current.volumes + (request.volumes || 0);
+
+        return { current, requested };
+    }
+
+    // quota checked creates and updates of the tenant are serialized together with their
+    // checks, so that parallel requests can't all pass the check before any of them is done
+    const serializeQuotaChecks = createSerializer();
+    function serializeQuotaChecked<T>(create: () => Promise<T>): Promise<T> {
+        if (!hasQuotas(policy().quotas)) {
+            return create();
+        }
+        return serializeQuotaChecks(create);
+    }
+
+    async function checkWithinQuotas(request: QuotaRequest): Promise<Violation[]> {
+        const quotas = policy().quotas;
+        if (!hasQuotas(quotas)) {
+            return [];
+        }
+        const usage = await getQuotaUsage(request);
+        return checkQuotas(quotas, usage.current, usage.requested).map(message => violation('quota', message));
+    }
+
+    // lets tenants see their current usage against their quotas
+    router.get('/swarmgate/v1/quotas', requireRole('viewer'), async (req, res) => {
+        try {
+            const usage = await getQuotaUsage();
+            res.json({
+                Usage: usage.current,
+                Quotas: policy().quotas
+            });
+        } catch (error: any) {
+            console.error(error);
+            sendError(res, 500, error.message);
+        }
+    });
+
+    // dry run
+
+    // the rules checked for each kind of spec, in the order they are checked
+    const VALIDATION_RULES: { [kind: string]: string[] } = {
+        service: ['name', ...TASK_TEMPLATE_RULES, 'ports', 'quota', ...IMAGE_RULES],
+        network: ['name', 'network.policy', 'quota', 'network.subnet'],
+        volume: ['name', 'volume.driver', 'mount.bind', 'quota', 'secret.owned'],
+        secret: ['name', 'secret.driver', 'template.driver', 'quota'],
+        config: ['name', 'template.driver', 'quota'],
+    };
+
+    // runs the checks of the create routes without creating anything, so that specs can be
+    // linted before deploying. ?replaces=<service> checks a service as an update of that service
+    router.post('/swarmgate/v1/validate/:kind', requireRole('viewer'), async (req, res) => {
+        const kind = req.params.kind;
+        const rules = VALIDATION_RULES[kind];
+        if (!rules) {
+            sendError(res, 400, `Unknown kind ${kind}, expected one of ${Object.keys(VALIDATION_RULES).join(', ')}.`);
+            return;
+        }
+
+        const spec = req.body;
+        const original = structuredClone(spec);
+        try {
+            let violations: Violation[];
+            let skippedRules: string[] = [];
+            if (kind === 'service') {
+                const replaces = typeof req.query.replaces === 'string' ? req.query.replaces : undefined;
+                if (replaces && !await isOwnedService(replaces)) {
+                    denyUnowned(res, 'service', replaces, 403, 'Access denied: Service is not owned.');
+                    return;
+                }
+                ({ violations, skippedRules } = await checkServiceCreate(req, spec, replaces));
+            } else if (kind === 'network') {
+                violations = await checkNetworkCreate(spec);
+                const networkPolicy = policy().networkPolicy;
+                // the subnet that would be assigned right now, it is not reserved
+                if (violations.length === 0 && networkPolicy.addressPool) {
+                    violations.push(...await assignSubnet(spec, networkPolicy.addressPool, networkPolicy.subnetSize));
+                } else {
+                    skippedRules = ['network.subnet'];
+                }
+            } else if (kind === 'volume') {
+                violations = await checkVolumeCreate(spec);
+                // the driver options are only checked for an allowed driver
+                if (violations.some(v => v.rule === 'volume.driver')) {
+                    skippedRules = ['mount.bind'];
+                }
+            } else {
+                violations = await checkSecretOrConfigCreate(kind as 'secret' | 'config', spec);
+            }
+
+            const failedRules = new Set(violations.map(v => v.rule));
+            res.json({
+                allowed: violations.length === 0,
+                rules: rules.map(rule => ({ rule: rule, result: failedRules.has(rule) ? 'failed' : skippedRules.includes(rule) ? 'skipped' : 'passed' })),
+                violations: violations.map(v => ({ rule: v.rule, message: v.message })),
+                mutations: diffSpecs(original, spec),
+                spec: spec
+            });
+        } catch (error: any) {
+            console.error(error);
+            sendError(res, 500, error.message);
         }
     });
 
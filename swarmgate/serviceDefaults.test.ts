@@ -0,0 +1,90 @@
+import Docker from 'dockerode';
+import { applyServiceDefaults } from './serviceDefaults';
+
+describe('service defaults', () => {
+    function serviceSpec(taskTemplate: any, labels?: { [key: string]: string }): Docker.ServiceSpec {
+        return { Name: 'tenant_web', Labels: labels, TaskTemplate: taskTemplate };
+    }
+
+    it('should fill in values the tenant left out', () => {
+        const spec = serviceSpec({ ContainerSpec: { Image: 'nginx' } });
+        applyServiceDefaults(spec, {
+            resources: { Limits: { MemoryBytes: 512 }, Reservations: { NanoCPUs: 100 } },
+            restartPolicy: { Condition: 'on-failure', MaxAttempts: 3 },
+            ulimits: [{ Name: 'nofile', Soft: 1024, Hard: 2048 }],
+            stopGracePeriod: 10,
+            labels: { team: 'a' }
+        });
+        expect(spec.Labels).toEqual({ team: 'a' });
+        expect(spec.TaskTemplate).toEqual({
+            ContainerSpec: { Image: 'nginx', Ulimits: [{ Name: 'nofile', Soft: 1024, Hard: 2048 }], StopGracePeriod: 10 },
+            Resources: { Limits: { MemoryBytes: 512 }, Reservations: { NanoCPUs: 100 } },
+            RestartPolicy: { Condition: 'on-failure', MaxAttempts: 3 }
+        });
+    });
+
+    it('should let operator values win unless the field is overridable', () => {
+        const taskTemplate = () => ({
+            ContainerSpec: { Image: 'nginx', Ulimits: [{ Name: 'nofile', Soft: 1, Hard: 1 }], StopGracePeriod: 1 },
+            Resources: { Limits: { MemoryBytes: 4096, Pids: 10 } },
+            RestartPolicy: { Condition: 'any' }
+        });
+        const defaults = {
+            resources: { Limits: { MemoryBytes: 512 } },
+            restartPolicy: { Condition: 'on-failure' },
+            ulimits: [{ Name: 'nofile', Soft: 1024, Hard: 2048 }],
+            stopGracePeriod: 10,
+            labels: { team: 'a' }
+        };
+
+        const enforced = serviceSpec(taskTemplate(), { team: 'b', app: 'web' });
+        applyServiceDefaults(enforced, defaults);
+        expect(enforced.Labels).toEqual({ team: 'a', app: 'web' });
+        expect((enforced.TaskTemplate as any).Resources.Limits).toEqual({ MemoryBytes: 512, Pids: 10 });
+        expect((enforced.TaskTemplate as any).RestartPolicy).toEqual({ Condition: 'on-failure' });
+        expect((enforced.TaskTemplate as any).ContainerSpec.Ulimits).toEqual([{ Name: 'nofile', Soft: 1024, Hard: 2048 }]);
+        expect((enforced.TaskTemplate as any).ContainerSpec.StopGracePeriod).toBe(10);
+
+        const overridden = serviceSpec(taskTemplate(), { team: 'b' });
+        applyServiceDefaults(overridden, { ...defaults, overridable: ['resources', 'restartPolicy', 'ulimits', 'stopGracePeriod', 'labels'] });
+        expect(overridden.Labels).toEqual({ team: 'b' });
+        expect((overridden.TaskTemplate as any).Resources.Limits).toEqual({ MemoryBytes: 4096, Pids: 10 });
+        expect((overridden.TaskTemplate as any).RestartPolicy).toEqual({ Condition: 'any' });
+        expect((overridden.TaskTemplate as any).ContainerSpec.Ulimits).toEqual([{ Name: 'nofile', Soft: 1, Hard: 1 }]);
+        expect((overridden.TaskTemplate as any).ContainerSpec.StopGracePeriod).toBe(1);
+    });
+
+    it('should merge log driver options of the same driver', () => {
+        const defaults = { logDriver: { Name: 'json-file', Options: { 'max-size': '10m', 'max-file': '3' } } };
+
+        const spec = serviceSpec({ LogDriver: { Name: 'json-file', Options: { 'max-size': '100m' } } });
+        applyServiceDefaults(spec, defaults);
+        expect((spec.TaskTemplate as any).LogDriver).toEqual({ Name: 'json-file', Options: { 'max-size': '10m', 'max-file': '3' } });
+
+        const overridable = serviceSpec({ LogDriver: { Name: 'json-file', Options: { 'max-size': '100m' } } });
+        applyServiceDefaults(overridable, { ...defaults, overridable: ['logDriver'] });
+        expect((overridable.TaskTemplate as any).LogDriver).toEqual({ Name: 'json-file', Options: { 'max-size': '100m', 'max-file': '3' } });
+    });
+
+    it('should only keep another log driver if it is overridable', () => {
+        const defaults = { logDriver: { Name: 'json-file', Options: { 'max-size': '10m' } } };
+
+        const spec = serviceSpec({ LogDriver: { Name: 'syslog', Options: { 'syslog-address': 'udp://1.2.3.4:514' } } });
+        applyServiceDefaults(spec, defaults);
+        expect((spec.TaskTemplate as any).LogDriver).toEqual({ Name: 'json-file', Options: { 'max-size': '10m' } });
+
+        const overridable = serviceSpec({ LogDriver: { Name: 'syslog' } });
+        applyServiceDefaults(overridable, { ...defaults, overridable: ['logDriver'] });
+        expect((overridable.TaskTemplate as any).LogDriver).toEqual({ Name: 'syslog' });
+
+        const unnamed = serviceSpec({ LogDriver: { Options: { foo: 'bar' } } });
+        applyServiceDefaults(unnamed, { ...defaults, overridable: ['logDriver'] });
+        expect((unnamed.TaskTemplate as any).LogDriver).toEqual({ Name: 'json-file', Options: { 'max-size': '10m' } });
+    });
+
+    it('should only apply labels without a task template', () => {
+        const spec: Docker.ServiceSpec = { Name: 'tenant_web' };
+        applyServiceDefaults(spec, { labels: { team: 'a' }, stopGracePeriod: 10 });
+        expect(spec).toEqual({ Name: 'tenant_web', Labels: { team: 'a' } });
+    });
+});
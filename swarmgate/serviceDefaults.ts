@@ -0,0 +1,110 @@
+import Docker from 'dockerode';
+
+// operator defined defaults that are injected into service specs on create and update.
+// Values the tenant left out are always filled in. Values the tenant set explicitly are
+// kept only for the fields listed in overridable, otherwise the operator value wins.
+
+export type Ulimit = {
+    Name: string,
+    Soft: number,
+    Hard: number
+}
+
+export type ServiceDefaults = {
+    resources?: {
+        Limits?: { NanoCPUs?: number, MemoryBytes?: number, Pids?: number },
+        Reservations?: { NanoCPUs?: number, MemoryBytes?: number }
+    },
+    ulimits?: Ulimit[],
+    restartPolicy?: {
+        Condition?: string,
+        Delay?: number,
+        MaxAttempts?: number,
+        Window?: number
+    },
+    logDriver?: {
+        Name: string,
+        Options?: { [key: string]: string }
+    },
+    // nanoseconds
+    stopGracePeriod?: number,
+    labels?: { [key: string]: string },
+    overridable?: ServiceDefaultField[]
+}
+
+export const SERVICE_DEFAULT_FIELDS = ['resources', 'ulimits', 'restartPolicy', 'logDriver', 'stopGracePeriod', 'labels'] as const;
+export type ServiceDefaultField = typeof SERVICE_DEFAULT_FIELDS[number];
+
+// merges operator values into the tenant values key by key
+function mergeDefaults<T extends { [key: string]: any }>(tenantValue: T | undefined, operatorValue: T, overridable: boolean): T {
+    if (!tenantValue) {
+        return { ...operatorValue };
+    }
+    if (overridable) {
+        return { ...operatorValue, ...tenantValue };
+    }
+    return { ...tenantValue, ...operatorValue };
+}
+
+export function applyServiceDefaults(serviceSpec: Docker.ServiceSpec, defaults: ServiceDefaults) {
+    const overridable = (field: ServiceDefaultField) => (defaults.overridable || []).includes(field);
+    const taskTemplate: any = serviceSpec.TaskTemplate;
+
+    if (defaults.labels) {
+        serviceSpec.Labels = mergeDefaults(serviceSpec.Labels, defaults.labels, overridable('labels'));
+    }
+
+    if (!taskTemplate) {
+        return;
+    }
+
+    if (defaults.resources) {
+        const resources = taskTemplate.Resources || {};
+        for (const key of ['Limits', 'Reservations'] as const) {
+            const operatorValue = defaults.resources[key];
+            if (operatorValue) {
+                resources[key] = mergeDefaults(resources[key], operatorValue, overridable('resources'));
+            }
+        }
+        taskTemplate.Resources = resources;
+    }
+
+    if (defaults.restartPolicy) {
+        taskTemplate.RestartPolicy = mergeDefaults(taskTemplate.RestartPolicy, defaults.restartPolicy, overridable('restartPolicy'));
+    }
+
+    if (defaults.logDriver) {
+        const logDriver = taskTemplate.LogDriver;
+        if (!logDriver || !logDriver.Name) {
+            taskTemplate.LogDriver = { Name: defaults.logDriver.Name, Options: { ...defaults.logDriver.Options } };
+        } else if (logDriver.Name === defaults.logDriver.Name) {
+            logDriver.Options = mergeDefaults(logDriver.Options, defaults.logDriver.Options || {}, overridable('logDriver'));
+        } else if (!overridable('logDriver')) {
+            taskTemplate.LogDriver = { Name: defaults.logDriver.Name, Options: { ...defaults.logDriver.Options } };
+        }
+    }
+
+    const containerSpec = taskTemplate.ContainerSpec;
+    if (!containerSpec) {
+        return;
+    }
+
+    if (defaults.ulimits) {
+        const ulimits: Ulimit[] = [...(containerSpec.Ulimits || [])];
+        for (const ulimit of defaults.ulimits) {
+            const index = ulimits.findIndex(u => u.Name === ulimit.Name);
+            if (index === -1) {
+                ulimits.push({ ...ulimit });
+            } else if (!overridable('ulimits')) {
+                ulimits[index] = { ...ulimit };
+            }
+        }
+        containerSpec.Ulimits = ulimits;
+    }
+
+    if (defaults.stopGracePeriod !== undefined) {
+        if (containerSpec.StopGracePeriod === undefined || !overridable('stopGracePeriod')) {
+            containerSpec.StopGracePeriod = defaults.stopGracePeriod;
+        }
+    }
+}
@@ -0,0 +1,44 @@
+import { diffSpecs } from './specDiff';
+
+describe('spec diff', () => {
+    it('should find no changes in equal specs', () => {
+        const spec = { Name: 'tenant_web', TaskTemplate: { ContainerSpec: { Image: 'nginx' } } };
+        expect(diffSpecs(spec, structuredClone(spec))).toEqual([]);
+    });
+
+    it('should describe added labels with escaped keys', () => {
+        const before = { Name: 'tenant_web' };
+        const after = { Name: 'tenant_web', Labels: { 'com.example/tenant': 'tenant' } };
+        expect(diffSpecs(before, after)).toEqual([
+            { op: 'add', path: '/Labels', value: { 'com.example/tenant': 'tenant' } }
+        ]);
+
+        const withLabels = { Labels: { 'a~b': 'x' } };
+        expect(diffSpecs({ Labels: {} }, withLabels)).toEqual([
+            { op: 'add', path: '/Labels/a~0b', value: 'x' }
+        ]);
+    });
+
+    it('should describe replaced and removed values', () => {
+        const before = { TaskTemplate: { ContainerSpec: { Image: 'nginx:1.25', User: 'root' } } };
+        const after = { TaskTemplate: { ContainerSpec: { Image: 'nginx:1.25@sha256:abc' } } };
+        expect(diffSpecs(before, after)).toEqual([
+            { op: 'replace', path: '/TaskTemplate/ContainerSpec/Image', value: 'nginx:1.25@sha256:abc' },
+            { op: 'remove', path: '/TaskTemplate/ContainerSpec/User' }
+        ]);
+    });
+
+    it('should describe changes of arrays by index', () => {
+        const before = { Constraints: ['node.role==worker'], Ports: [1, 2, 3] };
+        const after = { Constraints: ['node.role==worker', 'node.labels.pool==a'], Ports: [1] };
+        expect(diffSpecs(before, after)).toEqual([
+            { op: 'add', path: '/Constraints/1', value: 'node.labels.pool==a' },
+            { op: 'remove', path: '/Ports/2' },
+            { op: 'remove', path: '/Ports/1' }
+        ]);
+    });
+
+    it('should ignore undefined fields', () => {
+        expect(diffSpecs({ Name: 'a' }, { Name: 'a', version: undefined })).toEqual([]);
+    });
+});
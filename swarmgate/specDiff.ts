@@ -0,0 +1,61 @@
+// describes the changes the gateway makes to a spec (labels, defaults, pinned images, ...)
+// as a JSON patch (RFC 6902) from the spec the client sent to the one sent to docker
+
+export type PatchOperation = {
+    op: 'add' | 'remove' | 'replace',
+    // JSON pointer, e.g. /TaskTemplate/ContainerSpec/Image
+    path: string,
+    value?: any
+}
+
+function escapePathSegment(segment: string): string {
+    return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function isObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function diffValues(before: any, after: any, path: string, operations: PatchOperation[]) {
+    if (Array.isArray(before) && Array.isArray(after)) {
+        const common = Math.min(before.length, after.length);
+        for (let i = 0; i < common; i++) {
+            diffValues(before[i], after[i], `${path}/${i}`, operations);
+        }
+        for (let i = common; i < after.length; i++) {
+            operations.push({ op: 'add', path: `${path}/${i}`, value: after[i] });
+        }
+        // from the end so that the indices stay valid while applying the patch
+        for (let i = before.length - 1; i >= common; i--) {
+            operations.push({ op: 'remove', path: `${path}/${i}` });
+        }
+        return;
+    }
+    if (isObject(before) && isObject(after)) {
+        for (const key of Object.keys(before)) {
+            const keyPath = `${path}/${escapePathSegment(key)}`;
+            if (Object.prototype.hasOwnProperty.call(after, key)) {
+                diffValues(before[key], after[key], keyPath, operations);
+            } else {
+                operations.push({ op: 'remove', path: keyPath });
+            }
+        }
+        for (const key of Object.keys(after)) {
+            if (!Object.prototype.hasOwnProperty.call(before, key)) {
+                operations.push({ op: 'add', path: `${path}/${escapePathSegment(key)}`, value: after[key] });
+            }
+        }
+        return;
+    }
+    // values, or values of different types
+    if (before !== after) {
+        operations.push({ op: 'replace', path: path, value: after });
+    }
+}
+
+// both specs are compared as JSON, so undefined fields are ignored
+export function diffSpecs(before: any, after: any): PatchOperation[] {
+    const operations: PatchOperation[] = [];
+    diffValues(JSON.parse(JSON.stringify(before ?? null)), JSON.parse(JSON.stringify(after ?? null)), '', operations);
+    return operations;
+}
@@ -0,0 +1,47 @@
+import { PeerCertificate } from 'tls';
+import { getCertificateIdentities, parseTenantMapping } from './tenants';
+
+function certificate(fields: { CN?: string | string[], OU?: string | string[], subjectaltname?: string }): PeerCertificate {
+    return {
+        subject: { CN: fields.CN, OU: fields.OU },
+        subjectaltname: fields.subjectaltname
+    } as unknown as PeerCertificate;
+}
+
+describe('tenants', () => {
+    it('should read identities from the common name and organizational units', () => {
+        const cert = certificate({ CN: 'team-a-deployer', OU: ['team-a', 'ci'] });
+        expect(getCertificateIdentities(cert, 'CN')).toEqual(['team-a-deployer']);
+        expect(getCertificateIdentities(cert, 'OU')).toEqual(['team-a', 'ci']);
+        expect(getCertificateIdentities(certificate({}), 'OU')).toEqual([]);
+        expect(getCertificateIdentities(cert, 'O')).toEqual([]);
+    });
+
+    it('should only read URIs from the subject alternative names', () => {
+        const cert = certificate({ subjectaltname: 'DNS:example.com, URI:spiffe://example.com/team-a,IP Address:10.0.0.1, URI:https://example.com/b' });
+        expect(getCertificateIdentities(cert, 'SAN_URI')).toEqual(['spiffe://example.com/team-a', 'https://example.com/b']);
+        expect(getCertificateIdentities(certificate({ subjectaltname: 'DNS:example.com' }), 'SAN_URI')).toEqual([]);
+        expect(getCertificateIdentities(certificate({}), 'SAN_URI')).toEqual([]);
+    });
+
+    it('should parse tenant mappings', () => {
+        expect(parseTenantMapping({ 'a-deployer': 'tenant1', 'a-ci': 'tenant1', 'b-deployer': 'tenant2' }, 'mapping.json')).toEqual({
+            'a-deployer': 'tenant1',
+            'a-ci': 'tenant1',
+            'b-deployer': 'tenant2'
+        });
+    });
+
+    it('should reject invalid tenant mappings', () => {
+        expect(() => parseTenantMapping(['tenant1'], 'mapping.json')).toThrow('must be a JSON object');
+        expect(() => parseTenantMapping({ 'a-deployer': '' }, 'mapping.json')).toThrow('invalid tenant for identity a-deployer');
+        expect(() => parseTenantMapping({ 'a-deployer': 1 }, 'mapping.json')).toThrow('invalid tenant');
+    });
+
+    it('should reject tenants that are a prefix of another tenant', () => {
+        expect(() => parseTenantMapping({ a: 'team', b: 'team_a' }, 'mapping.json'))
+            .toThrow('tenant team, which is a prefix of tenant team_a');
+        expect(() => parseTenantMapping({ a: 'teamb', b: 'team' }, 'mapping.json'))
+            .toThrow('tenant team, which is a prefix of tenant teamb');
+    });
+});
@@ -0,0 +1,142 @@
+import express from 'express';
+import fs from 'fs';
+import { TLSSocket, PeerCertificate } from 'tls';
+
+// fields of the verified client certificate that can identify the client
+export const KNOWN_IDENTITY_FIELDS = ['CN', 'OU', 'SAN_URI'];
+const TENANT_IDENTITY_FIELD = process.env.TENANT_IDENTITY_FIELD || 'CN';
+
+const TENANT_MAPPING_PATH = process.env.TENANT_MAPPING_PATH || '/run/secrets/tenant_mapping';
+
+type TenantMapping = {
+    [identity: string]: string
+}
+
+export type TenantResolver = (req: express.Request) => string | undefined;
+
+export function getClientCertificate(req: express.Request): PeerCertificate | undefined {
+    const socket = req.socket as TLSSocket;
+    if (!socket.authorized || typeof socket.getPeerCertificate !== 'function') {
+        return undefined;
+    }
+    const cert = socket.getPeerCertificate();
+    if (!cert || Object.keys(cert).length === 0) {
+        return undefined;
+    }
+    return cert;
+}
+
+export function getClientCommonName(req: express.Request): string | undefined {
+    const cert = getClientCertificate(req);
+    if (!cert || !cert.subject) {
+        return undefined;
+    }
+    return firstValue(cert.subject.CN);
+}
+
+function firstValue(value: string | string[] | undefined): string | undefined {
+    if (Array.isArray(value)) {
+        return value[0];
+    }
+    return value;
+}
+
+function allValues(value: string | string[] | undefined): string[] {
+    if (!value) {
+        return [];
+    }
+    return Array.isArray(value) ? value : [value];
+}
+
+function getSanUris(cert: PeerCertificate): string[] {
+    if (!cert.subjectaltname) {
+        return [];
+    }
+    // format is e.g. "DNS:example.com, URI:spiffe://example.com/tenant1"
+    return cert.subjectaltname
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(entry => entry.startsWith('URI:'))
+        .map(entry => entry.substring('URI:'.length));
+}
+
+export function getCertificateIdentities(cert: PeerCertificate, field: string): string[] {
+    switch (field) {
+        case 'CN':
+            return allValues(cert.subject?.CN);
+        case 'OU':
+            return allValues(cert.subject?.OU);
+        case 'SAN_URI':
+            return getSanUris(cert);
+        default:
+            return [];
+    }
+}
+
+// ownership of names relies on the tenant prefix, so no tenant may be a prefix of another
+export function parseTenantMapping(raw: any, path: string): TenantMapping {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error(`Tenant mapping in ${path} must be a JSON object mapping certificate identities to tenant names.`);
+    }
+    const mapping: TenantMapping = {};
+    for (const [identity, tenant] of Object.entries(raw)) {
+        if (typeof tenant !== 'string' || !tenant) {
+            throw new Error(`Tenant mapping in ${path} has an invalid tenant for identity ${identity}.`);
+        }
+        mapping[identity] = tenant;
+    }
+    const tenants = [...new Set(Object.values(mapping))];
+    for (const tenant of tenants) {
+        const overlapping = tenants.find(other => other !== tenant && other.startsWith(tenant));
+        if (overlapping) {
+            throw new Error(`Tenant mapping in ${path} has tenant ${tenant}, which is a prefix of tenant ${overlapping}.`);
+        }
+    }
+    return mapping;
+}
+
+function loadTenantMapping(path: string): TenantMapping {
+    const fileContents = fs.readFileSync(path, 'utf8');
+    return parseTenantMapping(JSON.parse(fileContents), path);
+}
+
+// returns a function that works out the tenant for a request.
+// if a tenant mapping file exists, the tenant is taken from the verified client
+// certificate, otherwise every request belongs to the statically configured tenant
+export function createTenantResolver(staticTenant: string | undefined, tlsDisabled: boolean): TenantResolver {
+    if (!KNOWN_IDENTITY_FIELDS.includes(TENANT_IDENTITY_FIELD)) {
+        throw new Error(`TENANT_IDENTITY_FIELD must be one of ${KNOWN_IDENTITY_FIELDS.join(', ')}.`);
+    }
+
+    if (!fs.existsSync(TENANT_MAPPING_PATH)) {
+        if (!staticTenant) {
+            throw new Error(`TENANT_NAME environment variable is not set and no tenant mapping found at ${TENANT_MAPPING_PATH}.`);
+        }
+        console.log(`No tenant mapping found at ${TENANT_MAPPING_PATH}, serving single tenant ${staticTenant}`);
+        return () => staticTenant;
+    }
+
+    console.log(`Loading tenant mapping from ${TENANT_MAPPING_PATH}, identifying tenants by ${TENANT_IDENTITY_FIELD}`);
+    const mapping = loadTenantMapping(TENANT_MAPPING_PATH);
+
+    if (tlsDisabled) {
+        if (!staticTenant) {
+            throw new Error('A tenant mapping requires TLS. Set TENANT_NAME to run without TLS.');
+        }
+        console.warn(`WARNING: TLS is disabled, ignoring the tenant mapping and serving single tenant ${staticTenant}`);
+        return () => staticTenant;
+    }
+
+    return (req: express.Request) => {
+        const cert = getClientCertificate(req);
+        if (!cert) {
+            return undefined;
+        }
+        for (const identity of getCertificateIdentities(cert, TENANT_IDENTITY_FIELD)) {
+            if (Object.prototype.hasOwnProperty.call(mapping, identity)) {
+                return mapping[identity];
+            }
+        }
+        return undefined;
+    };
+}
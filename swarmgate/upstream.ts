@@ -0,0 +1,117 @@
+import Docker from 'dockerode';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import path from 'path';
+import { envFlag } from './validation';
+
+// connection to the upstream docker engine. Configured like the docker cli:
+// - DOCKER_HOST: unix:///var/run/docker.sock (default) or tcp://host:port
+// - DOCKER_TLS_VERIFY: use TLS and verify the engine certificate
+// - DOCKER_TLS: use TLS without verifying the engine certificate
+// - DOCKER_CERT_PATH: directory with ca.pem, cert.pem and key.pem
+// - DOCKER_TLS_CA_FILE, DOCKER_TLS_CERT_FILE, DOCKER_TLS_KEY_FILE: override single files
+
+type UnixUpstream = {
+    socketPath: string
+}
+
+type TcpUpstream = {
+    host: string,
+    port: number,
+    // holds the TLS settings if the engine is reached via TLS
+    tlsAgent?: https.Agent
+}
+
+type Upstream = UnixUpstream | TcpUpstream;
+
+export type DockerRequestOptions = {
+    path: string,
+    method: string,
+    headers?: http.OutgoingHttpHeaders
+}
+
+function readOptionalFile(explicitPath: string | undefined, certPath: string | undefined, fileName: string): Buffer | undefined {
+    if (explicitPath) {
+        return fs.readFileSync(explicitPath);
+    }
+    if (certPath && fs.existsSync(path.join(certPath, fileName))) {
+        return fs.readFileSync(path.join(certPath, fileName));
+    }
+    return undefined;
+}
+
+function parseUpstream(): Upstream {
+    const dockerHost = process.env.DOCKER_HOST || 'unix:///var/run/docker.sock';
+
+    if (dockerHost.startsWith('unix://')) {
+        return { socketPath: dockerHost.substring('unix://'.length) };
+    }
+
+    if (!dockerHost.startsWith('tcp://')) {
+        throw new Error(`DOCKER_HOST ${dockerHost} is not supported, use unix:// or tcp://.`);
+    }
+
+    const useTls = envFlag('DOCKER_TLS_VERIFY') || envFlag('DOCKER_TLS');
+    const url = new URL(dockerHost);
+    const upstream: TcpUpstream = {
+        host: url.hostname,
+        port: url.port ? parseInt(url.port) : (useTls ? 2376 : 2375),
+    };
+    if (useTls) {
+        const certPath = process.env.DOCKER_CERT_PATH;
+        upstream.tlsAgent = new https.Agent({
+            ca: readOptionalFile(process.env.DOCKER_TLS_CA_FILE, certPath, 'ca.pem'),
+            cert: readOptionalFile(process.env.DOCKER_TLS_CERT_FILE, certPath, 'cert.pem'),
+            key: readOptionalFile(process.env.DOCKER_TLS_KEY_FILE, certPath, 'key.pem'),
+            rejectUnauthorized: envFlag('DOCKER_TLS_VERIFY'),
+        });
+    }
+    return upstream;
+}
+
+const upstream = parseUpstream();
+
+export function describeUpstream(): string {
+    if ('socketPath' in upstream) {
+        return `unix://${upstream.socketPath}`;
+    }
+    return `${upstream.tlsAgent ? 'https' : 'http'}://${upstream.host}:${upstream.port}`;
+}
+
+export function createDockerClient(): Docker {
+    if ('socketPath' in upstream) {
+        return new Docker({ socketPath: upstream.socketPath });
+    }
+    return new Docker({
+        host: upstream.host,
+        port: upstream.port,
+        protocol: upstream.tlsAgent ? 'https' : 'http',
+        agent: upstream.tlsAgent,
+    } as Docker.DockerOptions);
+}
+
+// raw request to the docker engine, for everything that is passed through as is
+export function requestDocker(options: DockerRequestOptions, callback: (res: http.IncomingMessage) => void): http.ClientRequest {
+    if ('socketPath' in upstream) {
+        return http.request({ ...options, socketPath: upstream.socketPath }, callback);
+    }
+    // passed through requests carry the host header of the gateway,
+    // which would otherwise be used for the TLS server name
+    const headers = { ...options.headers, host: `${upstream.host}:${upstream.port}` };
+    if (upstream.tlsAgent) {
+        return https.request({
+            ...options,
+            headers: headers,
+            host: upstream.host,
+            port: upstream.port,
+            agent: upstream.tlsAgent,
+        }, callback);
+    }
+    return http.request({
+        ...options,
+        headers: headers,
+        host: upstream.host,
+        port: upstream.port,
+    }, callback);
+}
@@ -0,0 +1,9 @@
+// helpers shared by the modules reading configuration from files and the environment
+
+export function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function envFlag(name: string): boolean {
+    return process.env[name] === '1' || process.env[name] === 'true';
+}